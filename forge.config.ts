@@ -16,6 +16,14 @@ const config: ForgeConfig = {
     appBundleId: 'com.vkwrapper.desktop',
     icon: './assets/icon',
     extraResource: ['./assets'],
+    // Registers vk-wrapper:// links on macOS (Info.plist). Squirrel.Windows
+    // registers it from the app on install, see src/main.ts
+    protocols: [
+      {
+        name: 'VK Wrapper',
+        schemes: ['vk-wrapper'],
+      },
+    ],
   },
   rebuildConfig: {},
   makers: [
@@ -27,12 +35,14 @@ const config: ForgeConfig = {
     new MakerRpm({
       options: {
         icon: './assets/icon.png',
+        mimeType: ['x-scheme-handler/vk-wrapper'],
       },
     }),
     new MakerDeb({
       options: {
         maintainer: 'Max Evan',
         icon: './assets/icon.png',
+        mimeType: ['x-scheme-handler/vk-wrapper'],
       },
     }),
   ],
@@ -52,6 +62,11 @@ const config: ForgeConfig = {
           config: 'vite.preload.config.ts',
           target: 'preload',
         },
+        {
+          entry: 'src/logs-preload.ts',
+          config: 'vite.preload.config.ts',
+          target: 'preload',
+        },
       ],
       renderer: [
         {
@@ -0,0 +1,125 @@
+#!/usr/bin/env node
+
+// Stands in for a corporate npm mirror, and optionally the proxy in front of
+// it, so the network settings and "Test connectivity" can be tried locally:
+//
+//   node scripts/fake-registry.js [--proxy] [--proxy-auth user:password]
+//
+// Then set the npm registry to http://localhost:4873/ and, with --proxy, the
+// HTTP proxy to http://localhost:3128 (with user:password@ when
+// --proxy-auth is given). Only package metadata is served, so installs fail
+// after the lookup; use a cached or local vibe-kanban version for launches.
+//
+// The network settings have no automated tests; these are the checks to run
+// by hand with "Test connectivity":
+// - registry only: every step passes
+// - --proxy with the proxy set: the lookup goes through the proxy log
+// - --proxy-auth without credentials in the proxy URL: fails with HTTP 407
+// - localhost in the no-proxy list: the proxy log stays empty
+// - a wrong path in the registry URL: fails with HTTP 404
+// - an https:// registry URL: fails at the TLS step (the fake speaks http)
+
+const http = require('http');
+const net = require('net');
+
+const PORT = parseInt(process.env.PORT || '4873', 10);
+const PROXY_PORT = parseInt(process.env.PROXY_PORT || '3128', 10);
+const VERSION = process.env.VK_VERSION || '0.0.55';
+
+const args = process.argv.slice(2);
+const withProxy = args.includes('--proxy');
+const authIndex = args.indexOf('--proxy-auth');
+const proxyAuth = authIndex >= 0 ? args[authIndex + 1] : null;
+
+if (authIndex >= 0 && !proxyAuth) {
+  console.error('Usage: node scripts/fake-registry.js [--proxy] [--proxy-auth user:password]');
+  process.exit(1);
+}
+
+const metadata = {
+  name: 'vibe-kanban',
+  'dist-tags': { latest: VERSION },
+  versions: {
+    [VERSION]: {
+      name: 'vibe-kanban',
+      version: VERSION,
+      dist: { tarball: `http://localhost:${PORT}/vibe-kanban/-/vibe-kanban-${VERSION}.tgz` },
+    },
+  },
+};
+
+http.createServer((req, res) => {
+  console.log('[registry]', req.method, req.url);
+
+  if (req.url === '/vibe-kanban') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(metadata, null, 2));
+    return;
+  }
+
+  res.writeHead(404, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ error: 'Not found' }));
+}).listen(PORT, () => {
+  console.log(`Fake registry with vibe-kanban@${VERSION} at http://localhost:${PORT}/`);
+});
+
+if (withProxy) {
+  const authorized = (req) => {
+    if (!proxyAuth) {
+      return true;
+    }
+    return req.headers['proxy-authorization'] === `Basic ${Buffer.from(proxyAuth).toString('base64')}`;
+  };
+
+  const proxy = http.createServer((req, res) => {
+    console.log('[proxy]', req.method, req.url);
+    if (!authorized(req)) {
+      res.writeHead(407, { 'Proxy-Authenticate': 'Basic realm="fake-proxy"' });
+      res.end();
+      return;
+    }
+
+    // Plain http:// requests arrive with the absolute URL as the path
+    const target = new URL(req.url);
+    const headers = { ...req.headers };
+    delete headers['proxy-authorization'];
+    const upstream = http.request({
+      host: target.hostname,
+      port: target.port || 80,
+      path: `${target.pathname}${target.search}`,
+      method: req.method,
+      headers,
+    }, (response) => {
+      res.writeHead(response.statusCode, response.headers);
+      response.pipe(res);
+    });
+    upstream.on('error', (error) => {
+      res.writeHead(502);
+      res.end(error.message);
+    });
+    req.pipe(upstream);
+  });
+
+  // https:// requests ask for a tunnel
+  proxy.on('connect', (req, socket, head) => {
+    console.log('[proxy]', 'CONNECT', req.url);
+    if (!authorized(req)) {
+      socket.end('HTTP/1.1 407 Proxy Authentication Required\r\nProxy-Authenticate: Basic realm="fake-proxy"\r\n\r\n');
+      return;
+    }
+
+    const [host, port] = req.url.split(':');
+    const upstream = net.connect(Number(port) || 443, host, () => {
+      socket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+      upstream.write(head);
+      upstream.pipe(socket);
+      socket.pipe(upstream);
+    });
+    upstream.on('error', () => socket.end('HTTP/1.1 502 Bad Gateway\r\n\r\n'));
+    socket.on('error', () => upstream.destroy());
+  });
+
+  proxy.listen(PROXY_PORT, () => {
+    console.log(`Fake proxy at http://localhost:${PROXY_PORT}${proxyAuth ? ` (login ${proxyAuth})` : ''}`);
+  });
+}
@@ -0,0 +1,71 @@
+#!/usr/bin/env node
+
+// Serves a fake GitHub release so the updater can be tried locally:
+//
+//   node scripts/fake-update-feed.js 9.9.9 [asset files...]
+//   VK_WRAPPER_UPDATE_FEED=http://localhost:8787/release pnpm start
+//
+// Each asset is served with the SHA-256 digest GitHub would publish for it.
+// Pass --bad-digest to check that a tampered download is rejected.
+//
+// The updater has no automated tests; these are the checks to run by hand:
+// - a version above the running one is offered, an equal or lower one is not
+// - --bad-digest ends in the error state and nothing is handed to Squirrel
+// - unpackaged, Linux and unsigned macOS builds stop at "available" with a
+//   link to the release page
+
+const http = require('http');
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+const PORT = parseInt(process.env.PORT || '8787', 10);
+
+const args = process.argv.slice(2);
+const badDigest = args.includes('--bad-digest');
+const [version, ...files] = args.filter(arg => arg !== '--bad-digest');
+
+if (!version) {
+  console.error('Usage: node scripts/fake-update-feed.js <version> [asset files...] [--bad-digest]');
+  process.exit(1);
+}
+
+const assets = files.map((file) => {
+  const digest = crypto.createHash('sha256').update(fs.readFileSync(file)).digest('hex');
+  return {
+    file,
+    name: path.basename(file),
+    browser_download_url: `http://localhost:${PORT}/download/${encodeURIComponent(path.basename(file))}`,
+    digest: `sha256:${badDigest ? '0'.repeat(64) : digest}`,
+  };
+});
+
+const release = {
+  tag_name: `v${version}`,
+  body: 'Fake release for testing the updater.',
+  html_url: `http://localhost:${PORT}/release-page`,
+  published_at: new Date().toISOString(),
+  assets: assets.map(asset => ({ name: asset.name, browser_download_url: asset.browser_download_url, digest: asset.digest })),
+};
+
+http.createServer((req, res) => {
+  console.log(req.method, req.url);
+
+  if (req.url === '/release') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(release, null, 2));
+    return;
+  }
+
+  const asset = assets.find(candidate => req.url === `/download/${encodeURIComponent(candidate.name)}`);
+  if (asset) {
+    res.writeHead(200, { 'Content-Type': 'application/octet-stream' });
+    fs.createReadStream(asset.file).pipe(res);
+    return;
+  }
+
+  res.writeHead(404);
+  res.end();
+}).listen(PORT, () => {
+  console.log(`Fake release v${version} at http://localhost:${PORT}/release`);
+});
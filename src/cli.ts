@@ -0,0 +1,112 @@
+import { resolveWorkingDirectory } from './server-manager';
+
+/**
+ * Flags given to the vk-wrapper executable. Launch settings are written to
+ * the chosen profile before it starts, so they stick for later launches.
+ */
+export interface CliOptions {
+  // Profile id or name; the active profile when missing
+  profile?: string;
+  port?: number;
+  // Absolute, resolved against the directory the command was run in
+  cwd?: string;
+  vkVersion?: string;
+  // URL of a running server to connect to instead of starting one
+  attach?: string;
+  noWindow: boolean;
+  printConfig: boolean;
+  resetConfig: boolean;
+  help: boolean;
+}
+
+export const USAGE = `Usage: vk-wrapper [options]
+
+  --profile <id|name>   Launch this profile instead of the active one
+  --port <port>         Start the server on this port
+  --cwd <dir>           Start the server in this directory
+  --vk-version <spec>   vibe-kanban version: latest, an exact version or a path
+  --attach <url>        Connect to a vibe-kanban server that is already running
+  --no-window           Run the server without opening a window
+  --print-config        Print the current config (secrets redacted) and exit
+  --reset-config        Clear the config before starting
+  --help                Show this help and exit
+
+Settings given with --port, --cwd, --vk-version and --attach are saved to the
+profile. When VK Wrapper is already running, the flags are passed on to it.`;
+
+const VALUE_FLAGS = ['--profile', '--port', '--cwd', '--vk-version', '--attach'];
+
+/**
+ * Parse the executable's arguments (without the executable and, in
+ * development, the app path). Other flags, such as Chromium switches, and
+ * positional arguments like vk-wrapper:// links are left alone. Throws on
+ * missing or malformed values.
+ */
+export function parseCliArgs(args: string[]): CliOptions {
+  const options: CliOptions = { noWindow: false, printConfig: false, resetConfig: false, help: false };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const equals = arg.indexOf('=');
+    const flag = arg.startsWith('--') && equals > 0 ? arg.slice(0, equals) : arg;
+
+    let value: string | undefined;
+    if (VALUE_FLAGS.includes(flag)) {
+      if (flag !== arg) {
+        value = arg.slice(equals + 1);
+      } else if (i + 1 < args.length && !args[i + 1].startsWith('--')) {
+        value = args[++i];
+      }
+      if (!value?.trim()) {
+        throw new Error(`${flag} needs a value`);
+      }
+      value = value.trim();
+    }
+
+    switch (flag) {
+      case '--profile':
+        options.profile = value;
+        break;
+      case '--port': {
+        const port = Number(value);
+        if (!Number.isInteger(port) || port < 1 || port > 65535) {
+          throw new Error(`Invalid port "${value}". Use a number between 1 and 65535.`);
+        }
+        options.port = port;
+        break;
+      }
+      case '--cwd':
+        options.cwd = resolveWorkingDirectory(value);
+        break;
+      case '--vk-version':
+        options.vkVersion = value;
+        break;
+      case '--attach':
+        options.attach = value;
+        break;
+      case '--no-window':
+        options.noWindow = true;
+        break;
+      case '--print-config':
+        options.printConfig = true;
+        break;
+      case '--reset-config':
+        options.resetConfig = true;
+        break;
+      case '--help':
+        options.help = true;
+        break;
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Whether the flags ask for a profile to be launched, rather than just
+ * opening the app.
+ */
+export function wantsLaunch(options: CliOptions): boolean {
+  return options.profile !== undefined || options.port !== undefined || options.cwd !== undefined
+    || options.vkVersion !== undefined || options.attach !== undefined || options.noWindow;
+}
@@ -0,0 +1,243 @@
+import { RESTART_POLICIES } from './server-supervisor';
+
+// Bump when the shape of config.json changes, and add a migration below
+export const CONFIG_VERSION = 1;
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+type RawConfig = Record<string, unknown>;
+
+/**
+ * A config file that can't be used as is. `problems` lists each one, e.g.
+ * `profiles[0].port: expected an integer from 1 to 65535, got "abc"`.
+ */
+export class ConfigError extends Error {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(problems.join('\n'));
+    this.name = 'ConfigError';
+    this.problems = problems;
+  }
+}
+
+// MIGRATIONS[n] turns a version n config into version n + 1. Files written
+// before versioning count as version 0
+const MIGRATIONS: Array<(config: RawConfig) => RawConfig> = [
+  // Settings from before profiles existed move into a default profile, so
+  // every launch goes through one
+  (config) => {
+    if (Array.isArray(config.profiles) && config.profiles.length > 0) {
+      return config;
+    }
+
+    const { lastPort, vkVersion, restartPolicy, ...rest } = config;
+    return {
+      ...rest,
+      profiles: [{ id: DEFAULT_PROFILE_ID, name: 'Default', lastPort, vkVersion, restartPolicy }],
+      activeProfileId: DEFAULT_PROFILE_ID,
+    };
+  },
+];
+
+type Schema =
+  | { type: 'string' | 'boolean' | 'number' }
+  | { type: 'integer'; min: number; max: number }
+  | { type: 'enum'; values: readonly string[] }
+  | { type: 'array'; items: Schema; minItems?: number }
+  // An object with any keys, all holding the same kind of value
+  | { type: 'map'; values: Schema }
+  | { type: 'object'; fields: Record<string, Schema>; required?: string[] };
+
+const STRING: Schema = { type: 'string' };
+const BOOLEAN: Schema = { type: 'boolean' };
+const NUMBER: Schema = { type: 'number' };
+const PORT: Schema = { type: 'integer', min: 1, max: 65535 };
+
+const WINDOW_STATE_SCHEMA: Schema = {
+  type: 'object',
+  required: ['width', 'height', 'maximized', 'fullscreen', 'zoomFactor'],
+  fields: {
+    x: NUMBER,
+    y: NUMBER,
+    width: NUMBER,
+    height: NUMBER,
+    maximized: BOOLEAN,
+    fullscreen: BOOLEAN,
+    displayId: NUMBER,
+    zoomFactor: NUMBER,
+  },
+};
+
+const PROFILE_SCHEMA: Schema = {
+  type: 'object',
+  required: ['id', 'name'],
+  fields: {
+    id: STRING,
+    name: STRING,
+    port: PORT,
+    lastPort: PORT,
+    reuseLastPort: BOOLEAN,
+    portRange: STRING,
+    cwd: STRING,
+    lastRoute: STRING,
+    mode: { type: 'enum', values: ['local', 'remote'] },
+    remoteUrl: STRING,
+    env: { type: 'map', values: STRING },
+    secretEnv: { type: 'map', values: STRING },
+    vkVersion: STRING,
+    restartPolicy: { type: 'enum', values: RESTART_POLICIES },
+    healthPath: STRING,
+    windowState: WINDOW_STATE_SCHEMA,
+  },
+};
+
+const NETWORK_SCHEMA: Schema = {
+  type: 'object',
+  fields: {
+    registry: STRING,
+    httpProxy: STRING,
+    httpsProxy: STRING,
+    noProxy: STRING,
+    caFile: STRING,
+    strictSsl: BOOLEAN,
+  },
+};
+
+const CONFIG_SCHEMA: Schema = {
+  type: 'object',
+  required: ['version', 'profiles'],
+  fields: {
+    version: { type: 'integer', min: 0, max: CONFIG_VERSION },
+    nodePath: STRING,
+    npxPath: STRING,
+    profiles: { type: 'array', items: PROFILE_SCHEMA, minItems: 1 },
+    activeProfileId: STRING,
+    minimizeToTray: BOOLEAN,
+    autoLaunch: BOOLEAN,
+    windowState: WINDOW_STATE_SCHEMA,
+    notifications: { type: 'map', values: BOOLEAN },
+    boardPermissions: { type: 'map', values: BOOLEAN },
+    recentDirectories: { type: 'array', items: STRING },
+    savedConnections: { type: 'array', items: STRING },
+    network: NETWORK_SCHEMA,
+  },
+};
+
+function describe(value: unknown): string {
+  if (Array.isArray(value)) {
+    return 'a list';
+  }
+  if (value === null) {
+    return 'null';
+  }
+  return typeof value === 'object' ? 'an object' : JSON.stringify(value);
+}
+
+function isObject(value: unknown): value is RawConfig {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check a value against a schema, adding a line to `problems` for each field
+ * that doesn't fit. Fields the schema doesn't know are left alone.
+ */
+function check(schema: Schema, value: unknown, where: string, problems: string[]): void {
+  const fail = (expected: string) => problems.push(`${where}: expected ${expected}, got ${describe(value)}`);
+
+  switch (schema.type) {
+    case 'string':
+    case 'boolean':
+    case 'number':
+      if (typeof value !== schema.type || (schema.type === 'number' && !Number.isFinite(value))) {
+        fail(`a ${schema.type}`);
+      }
+      break;
+    case 'integer':
+      if (!Number.isInteger(value) || (value as number) < schema.min || (value as number) > schema.max) {
+        fail(`an integer from ${schema.min} to ${schema.max}`);
+      }
+      break;
+    case 'enum':
+      if (typeof value !== 'string' || !schema.values.includes(value)) {
+        fail(`one of ${schema.values.map(option => `"${option}"`).join(', ')}`);
+      }
+      break;
+    case 'array':
+      if (!Array.isArray(value)) {
+        fail('a list');
+      } else if (schema.minItems && value.length < schema.minItems) {
+        problems.push(`${where}: expected at least ${schema.minItems} item(s)`);
+      } else {
+        value.forEach((item, index) => check(schema.items, item, `${where}[${index}]`, problems));
+      }
+      break;
+    case 'map':
+      if (!isObject(value)) {
+        fail('an object');
+      } else {
+        for (const [key, item] of Object.entries(value)) {
+          check(schema.values, item, `${where}.${key}`, problems);
+        }
+      }
+      break;
+    case 'object':
+      if (!isObject(value)) {
+        fail('an object');
+        break;
+      }
+      for (const field of schema.required ?? []) {
+        if (value[field] === undefined) {
+          problems.push(`${where ? `${where}.` : ''}${field}: missing`);
+        }
+      }
+      for (const [field, fieldSchema] of Object.entries(schema.fields)) {
+        if (value[field] !== undefined) {
+          check(fieldSchema, value[field], where ? `${where}.${field}` : field, problems);
+        }
+      }
+      break;
+  }
+}
+
+/**
+ * Bring a parsed config file up to CONFIG_VERSION, one migration at a time,
+ * and check the result. Throws a ConfigError listing every problem.
+ */
+export function upgradeConfig(raw: unknown): { config: RawConfig; fromVersion: number } {
+  if (!isObject(raw)) {
+    throw new ConfigError([`expected an object, got ${describe(raw)}`]);
+  }
+
+  const fromVersion = raw.version ?? 0;
+  if (!Number.isInteger(fromVersion) || (fromVersion as number) < 0) {
+    throw new ConfigError([`version: expected a whole number, got ${describe(raw.version)}`]);
+  }
+  if ((fromVersion as number) > CONFIG_VERSION) {
+    throw new ConfigError([
+      `version: written by a newer VK Wrapper (config version ${fromVersion}, this one reads up to ${CONFIG_VERSION})`,
+    ]);
+  }
+
+  let config = raw;
+  for (let version = fromVersion as number; version < CONFIG_VERSION; version++) {
+    config = MIGRATIONS[version](config);
+  }
+  config = { ...config, version: CONFIG_VERSION };
+
+  const problems: string[] = [];
+  check(CONFIG_SCHEMA, config, '', problems);
+  if (Array.isArray(config.profiles)) {
+    const ids = config.profiles.map(profile => (profile as RawConfig)?.id);
+    ids.forEach((id, index) => {
+      if (typeof id === 'string' && ids.indexOf(id) !== index) {
+        problems.push(`profiles[${index}].id: "${id}" is used by more than one profile`);
+      }
+    });
+  }
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+
+  return { config, fromVersion: fromVersion as number };
+}
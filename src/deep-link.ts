@@ -0,0 +1,40 @@
+// Links look like vk-wrapper://open/projects/<id>/tasks/<id>[?profile=<profile id>]
+export const DEEP_LINK_PROTOCOL = 'vk-wrapper';
+
+export interface DeepLink {
+  // Profile to open the board of; the active profile when missing
+  profileId?: string;
+  // Board path, query and hash, e.g. "/projects/1/tasks/2"
+  route: string;
+}
+
+/**
+ * Parse a vk-wrapper:// link. Returns null for other URLs and for actions
+ * other than "open".
+ */
+export function parseDeepLink(value: string): DeepLink | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== `${DEEP_LINK_PROTOCOL}:` || url.hostname !== 'open') {
+    return null;
+  }
+
+  const profileId = url.searchParams.get('profile') || undefined;
+  url.searchParams.delete('profile');
+
+  // Collapse leading slashes so the route can't point at another host
+  const pathname = `/${url.pathname.replace(/^\/+/, '')}`;
+  return { profileId, route: `${pathname}${url.search}${url.hash}` };
+}
+
+/**
+ * The deep link among a process's arguments, as passed by the OS on Windows
+ * and Linux when a link is opened.
+ */
+export function findDeepLink(argv: string[]): string | undefined {
+  return argv.find(arg => arg.startsWith(`${DEEP_LINK_PROTOCOL}://`));
+}
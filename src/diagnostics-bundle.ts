@@ -0,0 +1,216 @@
+import { app } from 'electron';
+import { execFile } from 'child_process';
+import { gzipSync } from 'zlib';
+import path from 'path';
+import os from 'os';
+import fs from 'fs';
+import { ConfigManager, redactUrl } from './config-manager';
+import { ShellEnvironment, isSensitiveKey } from './shell-environment';
+import { NodeDiscovery } from './node-discovery';
+import { resolveProtoShim } from './server-manager';
+import { npmCommand } from './package-cache';
+import type { ServerError } from './server-error';
+import type { HealthState } from './health-monitor';
+
+/**
+ * What the app knows about a profile right now. Profiles that haven't been
+ * launched this session are reported with only their logs.
+ */
+export interface ProfileDiagnostics {
+  id: string;
+  name: string;
+  running: boolean;
+  url: string | null;
+  // vibe-kanban version that is running
+  version: string | null;
+  health: HealthState | null;
+  lastError: ServerError | null;
+  logDir: string;
+}
+
+interface BundleFile {
+  name: string;
+  content: Buffer;
+}
+
+const TAR_BLOCK = 512;
+
+function tarHeader(name: string, size: number, mtime: Date): Buffer {
+  const header = Buffer.alloc(TAR_BLOCK);
+  const octal = (value: number, length: number) => value.toString(8).padStart(length - 1, '0') + '\0';
+
+  header.write(name, 0, 100, 'utf-8');
+  header.write(octal(0o644, 8), 100, 'ascii');
+  header.write(octal(0, 8), 108, 'ascii');
+  header.write(octal(0, 8), 116, 'ascii');
+  header.write(octal(size, 12), 124, 'ascii');
+  header.write(octal(Math.floor(mtime.getTime() / 1000), 12), 136, 'ascii');
+  // Checksum is computed with its own field read as spaces
+  header.write(' '.repeat(8), 148, 'ascii');
+  header.write('0', 156, 'ascii');
+  header.write('ustar\0', 257, 'ascii');
+  header.write('00', 263, 'ascii');
+
+  let checksum = 0;
+  for (const byte of header) {
+    checksum += byte;
+  }
+  header.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148, 'ascii');
+  return header;
+}
+
+/**
+ * Pack files into a .tar.gz, which opens with tar and the archive tools built
+ * into macOS and Windows.
+ */
+function createTarGz(files: BundleFile[]): Buffer {
+  const mtime = new Date();
+  const blocks: Buffer[] = [];
+
+  for (const file of files) {
+    blocks.push(tarHeader(file.name, file.content.length, mtime), file.content);
+    const padding = (TAR_BLOCK - (file.content.length % TAR_BLOCK)) % TAR_BLOCK;
+    blocks.push(Buffer.alloc(padding));
+  }
+  // End of archive: two empty blocks
+  blocks.push(Buffer.alloc(TAR_BLOCK * 2));
+
+  return gzipSync(Buffer.concat(blocks));
+}
+
+/**
+ * Gathers what's needed to debug a launch problem into one archive, so a bug
+ * report doesn't take a round of questions: versions, the redacted config,
+ * the shell environment without secrets, the Node.js setup, recent server
+ * logs and the last startup error of each profile.
+ */
+export class DiagnosticsCollector {
+  private configManager: ConfigManager;
+  private shellEnvironment: ShellEnvironment;
+  private nodeDiscovery: NodeDiscovery;
+  private readonly VERSION_TIMEOUT = 5000; // 5 seconds
+  private readonly MAX_LOG_BYTES = 2 * 1024 * 1024; // 2 MB per profile
+
+  constructor(configManager: ConfigManager, shellEnvironment: ShellEnvironment, nodeDiscovery: NodeDiscovery) {
+    this.configManager = configManager;
+    this.shellEnvironment = shellEnvironment;
+    this.nodeDiscovery = nodeDiscovery;
+  }
+
+  async writeBundle(destPath: string, profiles: ProfileDiagnostics[]): Promise<void> {
+    const dir = `vk-wrapper-diagnostics-${new Date().toISOString().slice(0, 10)}`;
+    const files: BundleFile[] = [
+      { name: 'summary.txt', content: Buffer.from(this.summary(profiles)) },
+      { name: 'config.json', content: Buffer.from(JSON.stringify(this.configManager.getRedactedConfig(), null, 2)) },
+      { name: 'shell-env.txt', content: Buffer.from(await this.shellEnvSummary()) },
+      { name: 'node.txt', content: Buffer.from(await this.nodeSummary()) },
+    ];
+
+    for (const profile of profiles) {
+      const log = this.recentLog(profile.logDir);
+      if (log) {
+        files.push({ name: `logs/${profile.id}.log`, content: log });
+      }
+    }
+
+    fs.writeFileSync(destPath, createTarGz(files.map(file => ({ ...file, name: `${dir}/${file.name}` }))));
+  }
+
+  private summary(profiles: ProfileDiagnostics[]): string {
+    const lines = [
+      `Created ${new Date().toISOString()}`,
+      '',
+      `VK Wrapper ${app.getVersion()}${app.isPackaged ? '' : ' (development)'}`,
+      `Electron ${process.versions.electron}`,
+      `Chromium ${process.versions.chrome}`,
+      `Node.js (Electron) ${process.versions.node}`,
+      `OS ${process.platform} ${os.release()} ${process.arch}`,
+    ];
+
+    for (const profile of profiles) {
+      lines.push(
+        '',
+        `Profile "${profile.name}" (${profile.id})`,
+        `  Running: ${profile.running ? `yes, at ${profile.url ? redactUrl(profile.url) : 'unknown URL'}` : 'no'}`,
+        `  vibe-kanban: ${profile.version ?? 'not running'}`,
+        `  Health: ${profile.health ?? 'n/a'}`,
+        `  Last startup error: ${profile.lastError ? `(${profile.lastError.kind}) ${profile.lastError.message}` : 'none'}`,
+      );
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * The login shell environment with the values of anything credential-like
+   * left out.
+   */
+  private async shellEnvSummary(): Promise<string> {
+    const env = await this.shellEnvironment.get();
+    return Object.keys(env).sort()
+      .map(key => `${key}=${isSensitiveKey(key) ? '[redacted]' : env[key]}`)
+      .join('\n') + '\n';
+  }
+
+  private async nodeSummary(): Promise<string> {
+    const nodePath = this.configManager.getNodePath();
+    const npxPath = this.configManager.getNpxPath();
+    if (!nodePath || !npxPath) {
+      return 'Node.js and npx are not configured.\n';
+    }
+
+    const resolvedNode = resolveProtoShim(nodePath, 'node');
+    const resolvedNpx = resolveProtoShim(npxPath, 'npx');
+    const env = await this.shellEnvironment.get();
+    const check = await this.nodeDiscovery.inspect(resolvedNode, resolvedNpx, 'configured', env);
+    const npxVersion = await this.runVersion(resolvedNpx, resolvedNode, {
+      ...env,
+      PATH: `${path.dirname(resolvedNode)}${path.delimiter}${env.PATH || ''}`,
+    });
+
+    return [
+      `node (configured): ${nodePath}`,
+      `node (resolved):   ${resolvedNode}${resolvedNode === nodePath ? '' : ' (proto shim)'}`,
+      `npx (configured):  ${npxPath}`,
+      `npx (resolved):    ${resolvedNpx}${resolvedNpx === npxPath ? '' : ' (proto shim)'}`,
+      '',
+      `node --version: ${check.version ?? 'unknown'}`,
+      `npx --version:  ${npxVersion}`,
+      `Usable: ${check.supported ? 'yes' : `no, ${check.reason}`}`,
+    ].join('\n') + '\n';
+  }
+
+  private runVersion(npxPath: string, nodePath: string, env: NodeJS.ProcessEnv): Promise<string> {
+    const command = npmCommand(npxPath, nodePath, ['--version']);
+    return new Promise((resolve) => {
+      execFile(command.command, command.args, {
+        env,
+        timeout: this.VERSION_TIMEOUT,
+        shell: command.shell,
+      }, (error, stdout) => {
+        resolve(error ? `failed: ${error.message}` : stdout.trim());
+      });
+    });
+  }
+
+  /**
+   * The end of a profile's server log, across rotated files, oldest line first.
+   */
+  private recentLog(logDir: string): Buffer | null {
+    const chunks: Buffer[] = [];
+    let remaining = this.MAX_LOG_BYTES;
+
+    for (const name of ['server.log', 'server.1.log']) {
+      const file = path.join(logDir, name);
+      if (remaining <= 0 || !fs.existsSync(file)) {
+        continue;
+      }
+      const content = fs.readFileSync(file);
+      const tail = content.subarray(Math.max(0, content.length - remaining));
+      chunks.unshift(tail);
+      remaining -= tail.length;
+    }
+
+    return chunks.length > 0 ? Buffer.concat(chunks) : null;
+  }
+}
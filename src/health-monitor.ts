@@ -0,0 +1,191 @@
+import { EventEmitter } from 'events';
+import http from 'http';
+import https from 'https';
+import type { NetworkSettings } from './config-manager';
+import { connectFor, requestOver } from './connectivity-check';
+
+export type HealthState = 'starting' | 'ready' | 'degraded' | 'down';
+
+export interface ProbeResult {
+  ok: boolean;
+  latencyMs: number;
+  error?: string;
+}
+
+/**
+ * Probe a URL once. Any HTTP response below 500 counts as healthy: the server
+ * is accepting and answering requests, even if the path itself is a 404.
+ * With network settings the probe goes through the configured proxy and
+ * trusts the CA bundle, as the board window does.
+ */
+export function probeUrl(url: string, timeoutMs: number, network?: NetworkSettings): Promise<ProbeResult> {
+  if (network) {
+    return probeWithSettings(new URL(url), timeoutMs, network);
+  }
+
+  const startedAt = Date.now();
+  const client = url.startsWith('https:') ? https : http;
+
+  return new Promise((resolve) => {
+    const request = client.get(url, { timeout: timeoutMs }, (response) => {
+      response.resume();
+      const status = response.statusCode ?? 0;
+      resolve({
+        ok: status > 0 && status < 500,
+        latencyMs: Date.now() - startedAt,
+        error: status >= 500 ? `HTTP ${status}` : undefined,
+      });
+    });
+
+    request.on('timeout', () => {
+      request.destroy(new Error(`No response within ${timeoutMs}ms`));
+    });
+
+    request.on('error', (err) => {
+      resolve({ ok: false, latencyMs: Date.now() - startedAt, error: err.message });
+    });
+  });
+}
+
+async function probeWithSettings(url: URL, timeoutMs: number, network: NetworkSettings): Promise<ProbeResult> {
+  const startedAt = Date.now();
+  const result = (ok: boolean, error?: string): ProbeResult => ({ ok, latencyMs: Date.now() - startedAt, error });
+  const abort = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  let request: http.ClientRequest | null = null;
+
+  const probe = (async (): Promise<ProbeResult> => {
+    const { socket, proxy } = await connectFor(url, network, abort.signal);
+    if (abort.signal.aborted) {
+      socket.destroy();
+      return result(false);
+    }
+    return new Promise((resolve, reject) => {
+      request = requestOver(socket, url, proxy, {}, (response) => {
+        response.resume();
+        socket.destroy();
+        const status = response.statusCode ?? 0;
+        if (status === 407) {
+          resolve(result(false, 'Proxy requires a username and password (HTTP 407)'));
+        } else {
+          resolve(result(status > 0 && status < 500, status >= 500 ? `HTTP ${status}` : undefined));
+        }
+      });
+      request.on('error', reject);
+      request.end();
+    });
+  })().catch(error => result(false, (error as { reason?: string }).reason ?? (error instanceof Error ? error.message : String(error))));
+
+  const timeout = new Promise<ProbeResult>((resolve) => {
+    timer = setTimeout(() => {
+      abort.abort();
+      request?.destroy();
+      resolve(result(false, `No response within ${timeoutMs}ms`));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([probe, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Polls a running server over HTTP and tracks whether it is answering.
+ *
+ * - ready: the last probe succeeded quickly
+ * - degraded: the last probe was slow, or failed fewer than FAILURE_THRESHOLD times in a row
+ * - down: FAILURE_THRESHOLD probes in a row failed (the server is hung or gone)
+ *
+ * Emits 'state' (state: HealthState, previous: HealthState) on every transition.
+ */
+export class HealthMonitor extends EventEmitter {
+  private url: string;
+  private state: HealthState = 'starting';
+  private timer: NodeJS.Timeout | null = null;
+  private consecutiveFailures = 0;
+  private stopped = false;
+  private readonly POLL_INTERVAL = 5000; // 5 seconds
+  private readonly READY_POLL_INTERVAL = 500;
+  private readonly PROBE_TIMEOUT = 3000; // 3 seconds
+  private readonly SLOW_THRESHOLD = 2000; // 2 seconds
+  private readonly FAILURE_THRESHOLD = 3;
+
+  // Set for servers reached over the network, which may be behind the proxy
+  private network?: NetworkSettings;
+
+  constructor(url: string, network?: NetworkSettings) {
+    super();
+    this.url = url;
+    this.network = network;
+  }
+
+  getState(): HealthState {
+    return this.state;
+  }
+
+  getUrl(): string {
+    return this.url;
+  }
+
+  /**
+   * Resolve once the server answers a probe. Rejects if the monitor is
+   * stopped first; the caller owns the overall startup timeout.
+   */
+  async waitUntilReady(): Promise<void> {
+    while (!this.stopped) {
+      const result = await probeUrl(this.url, this.PROBE_TIMEOUT, this.network);
+      if (result.ok) {
+        this.setState('ready');
+        return;
+      }
+      await new Promise(resolve => setTimeout(resolve, this.READY_POLL_INTERVAL));
+    }
+    throw new Error('Health check cancelled');
+  }
+
+  /**
+   * Start polling in the background.
+   */
+  start(): void {
+    if (this.stopped || this.timer) {
+      return;
+    }
+    this.timer = setTimeout(() => this.poll(), this.POLL_INTERVAL);
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async poll(): Promise<void> {
+    const result = await probeUrl(this.url, this.PROBE_TIMEOUT, this.network);
+    if (this.stopped) {
+      return;
+    }
+
+    if (result.ok) {
+      this.consecutiveFailures = 0;
+      this.setState(result.latencyMs > this.SLOW_THRESHOLD ? 'degraded' : 'ready');
+    } else {
+      this.consecutiveFailures++;
+      console.log(`Health check failed (${this.consecutiveFailures}/${this.FAILURE_THRESHOLD}): ${result.error}`);
+      this.setState(this.consecutiveFailures >= this.FAILURE_THRESHOLD ? 'down' : 'degraded');
+    }
+
+    this.timer = setTimeout(() => this.poll(), this.POLL_INTERVAL);
+  }
+
+  private setState(state: HealthState): void {
+    if (state !== this.state) {
+      const previous = this.state;
+      this.state = state;
+      this.emit('state', state, previous);
+    }
+  }
+}
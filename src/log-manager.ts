@@ -0,0 +1,154 @@
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import path from 'path';
+
+export type LogStream = 'stdout' | 'stderr' | 'system';
+
+export interface LogEntry {
+  time: string;
+  stream: LogStream;
+  line: string;
+}
+
+const LINE_REGEX = /^(\S+) \[(stdout|stderr|system)\] (.*)$/;
+
+/**
+ * Captures server output into rotating log files and keeps the most recent
+ * lines in memory for the log window.
+ *
+ * Emits 'entry' with a LogEntry for every line appended.
+ */
+export class LogManager extends EventEmitter {
+  private logDir: string;
+  private logPath: string;
+  private entries: LogEntry[] = [];
+  // Partial lines waiting for their newline, per stream
+  private pending: Record<LogStream, string> = { stdout: '', stderr: '', system: '' };
+  private readonly MAX_FILE_SIZE = 5 * 1024 * 1024; // 5 MB
+  private readonly MAX_FILES = 5;
+  private readonly MAX_ENTRIES = 5000;
+
+  constructor(logDir: string) {
+    super();
+    this.logDir = logDir;
+    this.logPath = path.join(logDir, 'server.log');
+    this.loadRecent();
+  }
+
+  getLogDir(): string {
+    return this.logDir;
+  }
+
+  getEntries(): LogEntry[] {
+    return this.entries;
+  }
+
+  /**
+   * Append a chunk of output. Chunks may end mid-line, so the trailing
+   * partial line is held back until the rest of it arrives.
+   */
+  append(stream: LogStream, chunk: string): void {
+    const text = this.pending[stream] + chunk;
+    const lines = text.split(/\r?\n/);
+    this.pending[stream] = lines.pop() ?? '';
+
+    for (const line of lines) {
+      this.write({ time: new Date().toISOString(), stream, line });
+    }
+  }
+
+  /**
+   * Write any held-back partial lines, e.g. once the process has exited.
+   */
+  flush(): void {
+    for (const stream of Object.keys(this.pending) as LogStream[]) {
+      if (this.pending[stream]) {
+        const line = this.pending[stream];
+        this.pending[stream] = '';
+        this.write({ time: new Date().toISOString(), stream, line });
+      }
+    }
+  }
+
+  /**
+   * Concatenate all log files, oldest first, into a single file.
+   */
+  exportTo(destPath: string): void {
+    const files = this.getLogFiles().reverse();
+    fs.writeFileSync(destPath, '');
+    for (const file of files) {
+      fs.appendFileSync(destPath, fs.readFileSync(file));
+    }
+  }
+
+  /**
+   * Log files from newest to oldest: server.log, server.1.log, ...
+   */
+  getLogFiles(): string[] {
+    const files = [this.logPath];
+    for (let i = 1; i < this.MAX_FILES; i++) {
+      files.push(this.rotatedPath(i));
+    }
+    return files.filter(file => fs.existsSync(file));
+  }
+
+  private rotatedPath(index: number): string {
+    return path.join(this.logDir, `server.${index}.log`);
+  }
+
+  private write(entry: LogEntry): void {
+    this.entries.push(entry);
+    if (this.entries.length > this.MAX_ENTRIES) {
+      this.entries.splice(0, this.entries.length - this.MAX_ENTRIES);
+    }
+
+    try {
+      if (!fs.existsSync(this.logDir)) {
+        fs.mkdirSync(this.logDir, { recursive: true });
+      }
+      this.rotateIfNeeded();
+      fs.appendFileSync(this.logPath, `${entry.time} [${entry.stream}] ${entry.line}\n`);
+    } catch (error) {
+      console.error('Failed to write server log:', error);
+    }
+
+    this.emit('entry', entry);
+  }
+
+  private rotateIfNeeded(): void {
+    if (!fs.existsSync(this.logPath) || fs.statSync(this.logPath).size < this.MAX_FILE_SIZE) {
+      return;
+    }
+
+    // Shift server.N.log up by one, dropping the oldest
+    fs.rmSync(this.rotatedPath(this.MAX_FILES - 1), { force: true });
+    for (let i = this.MAX_FILES - 2; i >= 1; i--) {
+      if (fs.existsSync(this.rotatedPath(i))) {
+        fs.renameSync(this.rotatedPath(i), this.rotatedPath(i + 1));
+      }
+    }
+    fs.renameSync(this.logPath, this.rotatedPath(1));
+  }
+
+  /**
+   * Seed the in-memory buffer with the tail of the current log file, so the
+   * log window shows the previous session's output after a restart.
+   */
+  private loadRecent(): void {
+    try {
+      if (!fs.existsSync(this.logPath)) {
+        return;
+      }
+
+      const lines = fs.readFileSync(this.logPath, 'utf-8').split('\n').slice(-this.MAX_ENTRIES);
+      for (const line of lines) {
+        const match = line.match(LINE_REGEX);
+        if (match) {
+          this.entries.push({ time: match[1], stream: match[2] as LogStream, line: match[3] });
+        }
+      }
+    } catch (error) {
+      console.warn('Failed to read existing server log:', error);
+    }
+  }
+}
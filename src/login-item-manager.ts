@@ -0,0 +1,53 @@
+import { app } from 'electron';
+import path from 'path';
+import os from 'os';
+import fs from 'fs';
+
+/**
+ * Opens the app when the user logs in. macOS and Windows have an API for
+ * this; on Linux an XDG autostart entry is written instead.
+ */
+export class LoginItemManager {
+  private getAutostartPath(): string {
+    const configHome = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+    return path.join(configHome, 'autostart', 'vk-wrapper.desktop');
+  }
+
+  isEnabled(): boolean {
+    if (process.platform === 'linux') {
+      return fs.existsSync(this.getAutostartPath());
+    }
+    return app.getLoginItemSettings().openAtLogin;
+  }
+
+  setEnabled(enabled: boolean): void {
+    if (process.platform !== 'linux') {
+      app.setLoginItemSettings({ openAtLogin: enabled });
+      return;
+    }
+
+    const autostartPath = this.getAutostartPath();
+    if (!enabled) {
+      fs.rmSync(autostartPath, { force: true });
+      return;
+    }
+
+    fs.mkdirSync(path.dirname(autostartPath), { recursive: true });
+    fs.writeFileSync(autostartPath, [
+      '[Desktop Entry]',
+      'Type=Application',
+      'Name=VK Wrapper',
+      `Exec=${this.getExecCommand()}`,
+      'X-GNOME-Autostart-enabled=true',
+      '',
+    ].join('\n'));
+  }
+
+  private getExecCommand(): string {
+    const quote = (value: string) => `"${value.replace(/(["`$\\])/g, '\\$1')}"`;
+    // An AppImage's execPath points into its temporary mount, which is gone after logout
+    const executable = process.env.APPIMAGE || process.execPath;
+    // Unpackaged, execPath is the electron binary and needs the app directory
+    return app.isPackaged ? quote(executable) : `${quote(executable)} ${quote(app.getAppPath())}`;
+  }
+}
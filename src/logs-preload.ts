@@ -0,0 +1,12 @@
+import { contextBridge, ipcRenderer, IpcRendererEvent } from 'electron';
+import type { LogEntry } from './log-manager';
+
+// Preload for the log window. It only exposes read access to server logs.
+contextBridge.exposeInMainWorld('logsAPI', {
+  getEntries: () => ipcRenderer.invoke('logs-get-entries'),
+  exportLogs: () => ipcRenderer.invoke('logs-export'),
+  openLogFolder: () => ipcRenderer.invoke('logs-open-folder'),
+  onEntry: (callback: (entry: LogEntry) => void) => {
+    ipcRenderer.on('logs-entry', (_event: IpcRendererEvent, entry: LogEntry) => callback(entry));
+  },
+});
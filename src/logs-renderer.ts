@@ -0,0 +1,113 @@
+// avoid linting errors
+export { };
+
+type LogStream = 'stdout' | 'stderr' | 'system';
+
+interface LogEntry {
+  time: string;
+  stream: LogStream;
+  line: string;
+}
+
+// Type declaration for the exposed API
+declare global {
+  interface Window {
+    logsAPI: {
+      getEntries: () => Promise<LogEntry[]>;
+      exportLogs: () => Promise<string | null>;
+      openLogFolder: () => Promise<void>;
+      onEntry: (callback: (entry: LogEntry) => void) => void;
+    };
+  }
+}
+
+// Keep the DOM bounded; older lines stay in the log files
+const MAX_RENDERED = 5000;
+
+// DOM elements
+const logOutput = document.getElementById('log-output') as HTMLDivElement;
+const searchInput = document.getElementById('search') as HTMLInputElement;
+const streamSelect = document.getElementById('stream-filter') as HTMLSelectElement;
+const followCheckbox = document.getElementById('follow') as HTMLInputElement;
+const exportBtn = document.getElementById('export-btn') as HTMLButtonElement;
+const openFolderBtn = document.getElementById('open-folder-btn') as HTMLButtonElement;
+const statusText = document.getElementById('status') as HTMLSpanElement;
+
+let entries: LogEntry[] = [];
+
+function matches(entry: LogEntry): boolean {
+  const stream = streamSelect.value;
+  if (stream !== 'all' && entry.stream !== stream) {
+    return false;
+  }
+
+  const query = searchInput.value.trim().toLowerCase();
+  return !query || entry.line.toLowerCase().includes(query);
+}
+
+function renderEntry(entry: LogEntry): HTMLDivElement {
+  const row = document.createElement('div');
+  row.className = `log-line ${entry.stream}`;
+
+  const time = document.createElement('span');
+  time.className = 'time';
+  time.textContent = new Date(entry.time).toLocaleTimeString();
+
+  const text = document.createElement('span');
+  text.textContent = entry.line;
+
+  row.append(time, text);
+  return row;
+}
+
+function scrollToEnd() {
+  if (followCheckbox.checked) {
+    logOutput.scrollTop = logOutput.scrollHeight;
+  }
+}
+
+function renderAll() {
+  const visible = entries.filter(matches).slice(-MAX_RENDERED);
+  logOutput.replaceChildren(...visible.map(renderEntry));
+  statusText.textContent = `${visible.length} of ${entries.length} lines`;
+  scrollToEnd();
+}
+
+function appendEntry(entry: LogEntry) {
+  entries.push(entry);
+  if (entries.length > MAX_RENDERED) {
+    entries.shift();
+  }
+
+  if (matches(entry)) {
+    logOutput.appendChild(renderEntry(entry));
+    if (logOutput.childElementCount > MAX_RENDERED) {
+      logOutput.firstElementChild?.remove();
+    }
+    scrollToEnd();
+  }
+}
+
+searchInput.addEventListener('input', renderAll);
+streamSelect.addEventListener('change', renderAll);
+followCheckbox.addEventListener('change', scrollToEnd);
+
+exportBtn.addEventListener('click', async () => {
+  const savedPath = await window.logsAPI.exportLogs();
+  if (savedPath) {
+    statusText.textContent = `Exported to ${savedPath}`;
+  }
+});
+
+openFolderBtn.addEventListener('click', () => {
+  window.logsAPI.openLogFolder();
+});
+
+// Initialize
+async function init() {
+  entries = await window.logsAPI.getEntries();
+  renderAll();
+  window.logsAPI.onEntry(appendEntry);
+}
+
+init();
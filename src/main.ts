@@ -1,28 +1,166 @@
-import { app, BrowserWindow, ipcMain, dialog } from 'electron';
+import { app, BrowserWindow, clipboard, ipcMain, dialog, session, shell, WebContents } from 'electron';
 import path from 'path';
+import os from 'os';
+import fs from 'fs';
 import started from 'electron-squirrel-startup';
-import { ServerManager } from './server-manager';
+import {
+  ServerManager,
+  StartupProgress,
+  STARTUP_CANCELLED,
+  checkWorkingDirectory,
+  normalizeRemoteUrl,
+  resolveWorkingDirectory,
+} from './server-manager';
+import { ServerSupervisor, RESTART_POLICIES } from './server-supervisor';
 import { WindowManager } from './window-manager';
-import { ConfigManager } from './config-manager';
+import { BOARD_PERMISSIONS, BoardPermission, ConfigManager, EnvVar, NetworkSettings, Profile } from './config-manager';
+import { LogManager, LogEntry } from './log-manager';
+import { PackageCache, parseVersionSpec } from './package-cache';
+import { HealthState, probeUrl } from './health-monitor';
+import { TrayManager, TrayProfileState } from './tray-manager';
+import { MenuManager, MenuProfileState } from './menu-manager';
+import { ShellEnvironment } from './shell-environment';
+import { NodeDiscovery } from './node-discovery';
+import { findFreePort, findPortOwner, isPortFree, parsePortRange, PortOwner } from './port-finder';
+import { ProcessTree, findGroupLeader } from './process-tree';
+import { LoginItemManager } from './login-item-manager';
+import { UpdateManager, UpdateState } from './update-manager';
+import { TaskWatcher, TaskEvent, TASK_EVENT_TYPES, TaskEventType } from './task-watcher';
+import { NotificationManager } from './notification-manager';
+import { ServerError, ServerErrorKind, classifyError } from './server-error';
+import { DiagnosticsCollector, ProfileDiagnostics } from './diagnostics-bundle';
+import { DEEP_LINK_PROTOCOL, findDeepLink, parseDeepLink } from './deep-link';
+import { CliOptions, USAGE, parseCliArgs, wantsLaunch } from './cli';
+import { ConfigError } from './config-schema';
+import { applyNetworkSettings, isTrustedByCaBundle, normalizeNetworkSettings, proxyCredentials } from './network-settings';
+import { checkConnectivity } from './connectivity-check';
 
 // Handle creating/removing shortcuts on Windows when installing/uninstalling.
 if (started) {
+  // Squirrel.Windows has no installer setting for URL protocols, so register
+  // vk-wrapper:// here. Updates re-register it for the new executable path
+  if (process.argv[1] === '--squirrel-uninstall') {
+    app.removeAsDefaultProtocolClient(DEEP_LINK_PROTOCOL);
+  } else {
+    app.setAsDefaultProtocolClient(DEEP_LINK_PROTOCOL);
+  }
   app.quit();
 }
 
+/**
+ * Everything that belongs to one running profile: its server, the supervisor
+ * restarting it, its logs, and the window (if any) showing its board.
+ */
+interface ProfileInstance {
+  profileId: string;
+  serverManager: ServerManager;
+  supervisor: ServerSupervisor;
+  logManager: LogManager;
+  taskWatcher: TaskWatcher;
+  windowManager: WindowManager | null;
+  logsWindow: BrowserWindow | null;
+  // Why the last launch (or the running server) failed, for diagnostics
+  lastError: ServerError | null;
+}
+
+type PortChoice =
+  | { kind: 'spawn'; port?: number }
+  | { kind: 'attach'; url: string; pid: number };
+
 class VibeKanbanApp {
-  private serverManager: ServerManager;
-  private windowManager = new WindowManager();
   private configManager: ConfigManager;
+  private packageCache: PackageCache;
+  private shellEnvironment = new ShellEnvironment();
+  private nodeDiscovery = new NodeDiscovery(this.shellEnvironment);
+  private diagnostics: DiagnosticsCollector;
+  private instances = new Map<string, ProfileInstance>();
+  private windowManagers = new Set<WindowManager>();
+  private trayManager: TrayManager;
+  private menuManager: MenuManager;
+  private loginItemManager = new LoginItemManager();
+  private updateManager: UpdateManager;
+  private notificationManager: NotificationManager;
+  // Version the user was last told about, so polling doesn't nag
+  private notifiedUpdateVersion: string | null = null;
   private isQuitting = false;
+  // Links opened before the first window exists, e.g. the one that launched the app on macOS
+  private pendingDeepLink: string | null = null;
+  private initialized = false;
+  // Flags this process was started with
+  private cliOptions: CliOptions;
 
-  constructor() {
+  constructor(cliOptions: CliOptions) {
+    this.cliOptions = cliOptions;
     this.configManager = new ConfigManager();
-    this.serverManager = new ServerManager(this.configManager);
+    this.packageCache = new PackageCache(path.join(app.getPath('userData'), 'packages'));
+    this.updateManager = new UpdateManager(path.join(app.getPath('userData'), 'updates'));
+    this.diagnostics = new DiagnosticsCollector(this.configManager, this.shellEnvironment, this.nodeDiscovery);
+    this.trayManager = new TrayManager({
+      getProfiles: () => this.getTrayProfiles(),
+      start: (profileId) => this.launchServer(this.instances.get(profileId)?.windowManager ?? null, profileId),
+      stop: (profileId) => this.stopServer(profileId),
+      restart: (profileId) => this.restartServer(profileId),
+      openWindow: (profileId) => this.showProfileWindow(profileId),
+      openInBrowser: (profileId) => {
+        const url = this.instances.get(profileId)?.serverManager.getUrl();
+        if (url) {
+          shell.openExternal(url);
+        }
+      },
+      quit: () => app.quit(),
+    });
+    this.notificationManager = new NotificationManager(this.configManager, {
+      getBoardWindow: (profileId) => this.instances.get(profileId)?.windowManager?.getWindow() ?? null,
+      getProfileName: (profileId) => this.configManager.getProfile(profileId)?.name ?? profileId,
+      focusBoard: (profileId, route) => this.openBoardRoute(profileId, route),
+    });
+    this.menuManager = new MenuManager({
+      getFocusedProfile: () => this.getFocusedProfile(),
+      start: (profileId) => this.launchServer(this.instances.get(profileId)?.windowManager ?? this.getFocusedWindowManager() ?? null, profileId),
+      stop: (profileId) => this.stopServer(profileId),
+      restart: (profileId) => this.restartServer(profileId),
+      changePort: (profileId) => {
+        const windowManager = this.instances.get(profileId)?.windowManager ?? this.getFocusedWindowManager();
+        windowManager?.showConfigScreen('port');
+      },
+      showLogs: (profileId) => this.openLogsWindow(profileId),
+      reloadBoard: (profileId) => {
+        const instance = this.instances.get(profileId);
+        const url = instance?.serverManager.getUrl();
+        if (instance?.windowManager && url) {
+          instance.windowManager.reloadServerUrl(url, profileId);
+        }
+      },
+      showSettings: () => (this.getFocusedWindowManager() ?? this.openLauncher()).showConfigScreen(),
+      showSetup: () => (this.getFocusedWindowManager() ?? this.openLauncher()).showSetupScreen(),
+      newWindow: () => this.openLauncher(),
+      checkForUpdates: () => this.checkForUpdates(),
+      createDiagnosticsBundle: () => this.saveDiagnosticsBundle(),
+    });
   }
 
   async initialize(): Promise<void> {
+    // macOS delivers links as events, possibly before the app is ready
+    app.on('open-url', (event, url) => {
+      event.preventDefault();
+      this.openDeepLink(url);
+    });
+    // Windows and Linux start another instance with the link as an argument.
+    // Other launches pass on their parsed flags
+    app.on('second-instance', (_event, argv, _workingDirectory, additionalData) => {
+      const link = findDeepLink(argv);
+      const options = (additionalData as { cli?: CliOptions } | null)?.cli;
+      if (link) {
+        this.openDeepLink(link);
+      } else if (options && (options.resetConfig || wantsLaunch(options))) {
+        this.runCommandLine(options);
+      } else {
+        this.focusAnyWindow();
+      }
+    });
+
     await app.whenReady();
+    this.registerProtocol();
 
     // Set dock icon on macOS
     if (process.platform === 'darwin' && app.dock) {
@@ -37,12 +175,79 @@ class VibeKanbanApp {
       }
     }
 
-    // Create window with config screen
-    this.windowManager.createMainWindow();
+    if (this.cliOptions.resetConfig) {
+      console.log('Resetting config');
+      this.configManager.reset();
+    }
+    this.applyNetworkSettings();
+
+    // Create window with config screen, or go straight to the board (where
+    // that board's window was last)
+    const startupProfileId = this.configManager.getAutoLaunch() ? this.configManager.getActiveProfileId() : undefined;
+    const launcher = this.cliOptions.noWindow ? undefined : this.openLauncher(startupProfileId);
+    this.trayManager.create();
+    this.menuManager.update();
+    app.on('browser-window-focus', (_event, window) => {
+      this.menuManager.update();
+      const instance = [...this.instances.values()].find(candidate => candidate.windowManager?.getWindow() === window);
+      if (instance) {
+        this.notificationManager.clear(instance.profileId);
+      }
+    });
+    this.updateManager.on('state', (state: UpdateState) => this.handleUpdateState(state));
+    this.updateManager.startPolling();
+
+    const loadProblem = this.configManager.getLoadProblem();
+    if (loadProblem) {
+      dialog.showMessageBox({
+        type: 'warning',
+        message: 'Your settings could not be loaded',
+        detail: loadProblem,
+      });
+    }
+
+    this.initialized = true;
+    const startupLink = this.pendingDeepLink ?? findDeepLink(process.argv);
+    this.pendingDeepLink = null;
+    if (startupLink) {
+      this.openDeepLink(startupLink, launcher);
+    } else if (wantsLaunch(this.cliOptions)) {
+      this.launchFromCommandLine(this.cliOptions, launcher);
+    } else if (launcher) {
+      this.autoLaunch(launcher);
+    }
 
     // Setup IPC handlers
-    ipcMain.handle('launch-server', async (_event, port?: number) => {
-      await this.launchServer(port);
+    ipcMain.handle('launch-server', async (event, profileId: string) => {
+      const windowManager = this.findWindowManager(event.sender);
+      if (windowManager) {
+        this.configManager.setActiveProfileId(profileId);
+        await this.launchServer(windowManager, profileId);
+      }
+    });
+
+    // Cancel button on the loading screen
+    ipcMain.handle('cancel-launch', (event) => {
+      const windowManager = this.findWindowManager(event.sender);
+      const instance = [...this.instances.values()].find(candidate => candidate.windowManager === windowManager);
+      instance?.serverManager.cancelStartup();
+    });
+
+    ipcMain.handle('focus-profile', (event, profileId: string) => {
+      const instance = this.instances.get(profileId);
+      const windowManager = this.findWindowManager(event.sender);
+      const window = instance?.windowManager?.getWindow();
+      if (window && !window.isDestroyed() && instance?.windowManager !== windowManager) {
+        window.show();
+        window.focus();
+        return;
+      }
+
+      // Running in the background (e.g. started from the tray), or this window
+      // went back to settings: show the board here
+      if (instance && windowManager) {
+        this.attachWindow(instance, windowManager);
+      }
     });
 
     ipcMain.handle('get-paths', () => {
@@ -52,10 +257,166 @@ class VibeKanbanApp {
       };
     });
 
-    ipcMain.handle('set-paths', (_event, nodePath: string, npxPath: string) => {
+    ipcMain.handle('set-paths', async (_event, nodePath: string, npxPath: string) => {
+      const candidate = await this.nodeDiscovery.inspect(nodePath, npxPath, 'manual');
+      if (!candidate.supported) {
+        throw new Error(candidate.reason);
+      }
       this.configManager.setPaths(nodePath, npxPath);
     });
 
+    ipcMain.handle('discover-node', () => {
+      return this.nodeDiscovery.discover();
+    });
+
+    ipcMain.handle('get-profiles', () => {
+      return {
+        // Environment variables are fetched separately so ciphertext never reaches the page
+        profiles: this.configManager.getProfiles().map(profile => ({ ...profile, env: undefined, secretEnv: undefined })),
+        activeProfileId: this.configManager.getActiveProfileId(),
+        runningProfileIds: [...this.instances.values()]
+          .filter(instance => instance.serverManager.isRunning())
+          .map(instance => instance.profileId),
+        cachedVersions: this.packageCache.listCachedVersions(),
+        recentDirectories: this.configManager.getRecentDirectories(),
+        savedConnections: this.configManager.getSavedConnections(),
+      };
+    });
+
+    ipcMain.handle('create-profile', (_event, name: string) => {
+      return this.configManager.createProfile(name.trim() || 'New profile');
+    });
+
+    ipcMain.handle('update-profile', (_event, profile: Profile) => {
+      const vkVersion = profile.vkVersion?.trim() || 'latest';
+      if (!parseVersionSpec(vkVersion)) {
+        throw new Error(`Invalid version "${vkVersion}". Use "latest", an exact version like 0.0.55, or a path.`);
+      }
+      if (profile.restartPolicy && !RESTART_POLICIES.includes(profile.restartPolicy)) {
+        throw new Error(`Invalid restart policy "${profile.restartPolicy}"`);
+      }
+      if (profile.healthPath && !profile.healthPath.startsWith('/')) {
+        throw new Error('Health check path must start with /');
+      }
+      if (!profile.name?.trim()) {
+        throw new Error('Profile name cannot be empty');
+      }
+      const remoteUrl = profile.remoteUrl?.trim() ? normalizeRemoteUrl(profile.remoteUrl) : null;
+      if (profile.mode === 'remote' && !remoteUrl) {
+        throw new Error('Enter the http:// or https:// URL of the vibe-kanban server to connect to');
+      }
+      if (profile.portRange && !parsePortRange(profile.portRange)) {
+        throw new Error(`Invalid port range "${profile.portRange}". Use a range like 9000-9099 between 1024 and 65535.`);
+      }
+      const cwd = profile.cwd?.trim() || undefined;
+      if (cwd) {
+        const problem = checkWorkingDirectory(resolveWorkingDirectory(cwd));
+        if (problem) {
+          throw new Error(problem);
+        }
+      }
+
+      const existing = this.configManager.getProfile(profile.id);
+      this.configManager.updateProfile({
+        ...existing,
+        ...profile,
+        env: existing?.env,
+        secretEnv: existing?.secretEnv,
+        name: profile.name.trim(),
+        cwd,
+        remoteUrl: remoteUrl ?? undefined,
+        vkVersion,
+      });
+      if (cwd && cwd !== existing?.cwd) {
+        this.configManager.addRecentDirectory(cwd);
+      }
+      this.instances.get(profile.id)?.windowManager?.setProfileName(profile.name.trim());
+      this.updateMenus();
+    });
+
+    ipcMain.handle('get-profile-env', (_event, profileId: string) => {
+      return this.configManager.getProfileEnv(profileId);
+    });
+
+    ipcMain.handle('set-profile-env', (_event, profileId: string, vars: EnvVar[]) => {
+      this.configManager.setProfileEnv(profileId, vars);
+    });
+
+    ipcMain.handle('preview-profile-env', (_event, profileId: string) => {
+      // A preview doesn't register an instance, which would start its task poller
+      const serverManager = this.instances.get(profileId)?.serverManager ?? this.createServerManager(profileId);
+      return serverManager.previewEnvironment();
+    });
+
+    ipcMain.handle('delete-profile', async (_event, profileId: string) => {
+      const instance = this.instances.get(profileId);
+      if (instance) {
+        await instance.supervisor.stop();
+        instance.taskWatcher.stop();
+        instance.logsWindow?.close();
+        this.instances.delete(profileId);
+      }
+      this.notificationManager.forget(profileId);
+      this.configManager.deleteProfile(profileId);
+      this.updateMenus();
+    });
+
+    ipcMain.handle('get-minimize-to-tray', () => {
+      return this.configManager.getMinimizeToTray();
+    });
+
+    ipcMain.handle('set-minimize-to-tray', (_event, minimizeToTray: boolean) => {
+      this.configManager.setMinimizeToTray(minimizeToTray);
+    });
+
+    ipcMain.handle('get-auto-launch', () => {
+      return this.configManager.getAutoLaunch();
+    });
+
+    ipcMain.handle('set-auto-launch', (_event, autoLaunch: boolean) => {
+      this.configManager.setAutoLaunch(autoLaunch);
+    });
+
+    ipcMain.handle('get-open-at-login', () => {
+      return this.loginItemManager.isEnabled();
+    });
+
+    ipcMain.handle('set-open-at-login', (_event, openAtLogin: boolean) => {
+      this.loginItemManager.setEnabled(openAtLogin);
+    });
+
+    ipcMain.handle('get-notification-settings', () => {
+      return this.configManager.getNotificationSettings();
+    });
+
+    ipcMain.handle('set-notification-enabled', (_event, type: TaskEventType, enabled: boolean) => {
+      if (!TASK_EVENT_TYPES.includes(type)) {
+        throw new Error(`Unknown notification type "${type}"`);
+      }
+      this.configManager.setNotificationEnabled(type, enabled);
+    });
+
+    ipcMain.handle('get-board-permissions', () => {
+      return this.configManager.getBoardPermissions();
+    });
+
+    ipcMain.handle('set-board-permission', (_event, permission: BoardPermission, allowed: boolean) => {
+      if (!BOARD_PERMISSIONS.includes(permission)) {
+        throw new Error(`Unknown permission "${permission}"`);
+      }
+      this.configManager.setBoardPermission(permission, allowed);
+    });
+
+    // Raised by the board page itself, through window.vkWrapper.notify
+    ipcMain.handle('page-notify', (event, type: TaskEventType, title: string) => {
+      const windowManager = this.findWindowManager(event.sender);
+      const instance = [...this.instances.values()].find(candidate => candidate.windowManager === windowManager);
+      if (!instance || !TASK_EVENT_TYPES.includes(type) || typeof title !== 'string') {
+        return;
+      }
+      this.notificationManager.notify(instance.profileId, { type, title: title.slice(0, 200) });
+    });
+
     ipcMain.handle('browse-for-node', async () => {
       const result = await dialog.showOpenDialog({
         title: 'Locate node executable',
@@ -78,37 +439,1050 @@ class VibeKanbanApp {
       return result.canceled ? null : result.filePaths[0];
     });
 
+    ipcMain.handle('browse-for-cwd', async (_event, current?: string) => {
+      const result = await dialog.showOpenDialog({
+        title: 'Choose the working directory',
+        defaultPath: resolveWorkingDirectory(current),
+        properties: ['openDirectory', 'createDirectory'],
+      });
+      return result.canceled ? null : result.filePaths[0];
+    });
+
+    ipcMain.handle('browse-for-ca-file', async () => {
+      const result = await dialog.showOpenDialog({
+        title: 'Choose the CA bundle',
+        filters: [{ name: 'Certificates', extensions: ['pem', 'crt', 'cer'] }, { name: 'All Files', extensions: ['*'] }],
+        properties: ['openFile'],
+      });
+      return result.canceled ? null : result.filePaths[0];
+    });
+
+    ipcMain.handle('check-cwd', (_event, cwd?: string) => {
+      const resolved = resolveWorkingDirectory(cwd);
+      return { path: resolved, error: checkWorkingDirectory(resolved) };
+    });
+
+    ipcMain.handle('check-remote-url', async (_event, value: string) => {
+      const url = normalizeRemoteUrl(value);
+      if (!url) {
+        return { ok: false, error: 'Not an http:// or https:// URL' };
+      }
+      return probeUrl(url, 5000, this.configManager.getNetworkSettings());
+    });
+
+    // From the error screen; a summary to paste into a bug report
+    ipcMain.handle('copy-diagnostics', (_event, profileId: string, kind: ServerErrorKind, message: string) => {
+      clipboard.writeText(this.buildDiagnostics(profileId, new ServerError(kind, message)));
+    });
+
+    ipcMain.handle('save-diagnostics-bundle', () => this.saveDiagnosticsBundle());
+
+    ipcMain.handle('export-settings', () => this.exportSettings());
+
+    ipcMain.handle('get-network-settings', () => {
+      return this.configManager.getNetworkSettings();
+    });
+
+    ipcMain.handle('set-network-settings', (_event, settings: NetworkSettings) => {
+      this.configManager.setNetworkSettings(normalizeNetworkSettings(settings));
+      this.applyNetworkSettings();
+    });
+
+    // Tries the settings as entered, before they're saved
+    ipcMain.handle('test-connectivity', (_event, settings: NetworkSettings) => {
+      return checkConnectivity(normalizeNetworkSettings(settings));
+    });
+
+    ipcMain.handle('import-settings', () => this.importSettings());
+
+    ipcMain.handle('open-logs', (_event, profileId: string) => {
+      this.openLogsWindow(profileId);
+    });
+
+    ipcMain.handle('logs-get-entries', (event) => {
+      return this.findLogsInstance(event.sender)?.logManager.getEntries() ?? [];
+    });
+
+    ipcMain.handle('logs-export', async (event) => {
+      const instance = this.findLogsInstance(event.sender);
+      if (!instance) {
+        return null;
+      }
+
+      const date = new Date().toISOString().slice(0, 10);
+      const result = await dialog.showSaveDialog({
+        title: 'Export server logs',
+        defaultPath: `vk-wrapper-server-${date}.log`,
+        filters: [{ name: 'Log files', extensions: ['log', 'txt'] }],
+      });
+      if (result.canceled || !result.filePath) {
+        return null;
+      }
+      instance.logManager.exportTo(result.filePath);
+      return result.filePath;
+    });
+
+    ipcMain.handle('logs-open-folder', async (event) => {
+      const instance = this.findLogsInstance(event.sender);
+      if (instance) {
+        await shell.openPath(instance.logManager.getLogDir());
+      }
+    });
+
     this.setupEventHandlers();
   }
 
-  private async launchServer(port?: number): Promise<void> {
+  /**
+   * With auto-launch on, start the last launched profile without waiting on
+   * the config screen. Skipped when a local profile has no Node.js set up yet.
+   */
+  private autoLaunch(windowManager: WindowManager): void {
+    const profileId = this.configManager.getActiveProfileId();
+    const profile = this.configManager.getProfile(profileId);
+    if (!this.configManager.getAutoLaunch() || !profile) {
+      return;
+    }
+    if (profile.mode !== 'remote' && (!this.configManager.getNodePath() || !this.configManager.getNpxPath())) {
+      return;
+    }
+
+    console.log(`[${profileId}] Launching automatically`);
+    windowManager.showLoadingScreen();
+    this.launchServer(windowManager, profileId);
+  }
+
+  /**
+   * Act on flags passed on by a later launch of the executable.
+   */
+  private async runCommandLine(options: CliOptions): Promise<void> {
+    if (!this.initialized) {
+      // Still starting up: the newer flags win
+      this.cliOptions = options;
+      return;
+    }
+
+    if (options.resetConfig) {
+      await this.resetConfig();
+    }
+    if (wantsLaunch(options)) {
+      this.launchFromCommandLine(options);
+    } else {
+      this.focusAnyWindow();
+    }
+  }
+
+  /**
+   * Save the settings given as flags to their profile and launch it. With
+   * --no-window the server runs in the background, reachable from the tray.
+   */
+  private launchFromCommandLine(options: CliOptions, windowManager?: WindowManager): void {
+    let profileId: string;
+    try {
+      profileId = this.applyCliSettings(options);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('Invalid command line:', message);
+      dialog.showErrorBox('Invalid command line', message);
+      if (!windowManager && this.windowManagers.size === 0) {
+        this.openLauncher();
+      }
+      return;
+    }
+    this.updateMenus();
+
+    const { serverManager } = this.getInstance(profileId);
+    const busy = serverManager.isRunning() || serverManager.isStarting();
+    if (busy) {
+      console.log(`[${profileId}] Already running; new settings apply on the next start`);
+    }
+
+    if (options.noWindow) {
+      if (!busy) {
+        console.log(`[${profileId}] Launching without a window`);
+        this.launchServer(null, profileId);
+      }
+      return;
+    }
+    this.openBoardRoute(profileId, undefined, windowManager);
+  }
+
+  /**
+   * Write --port, --cwd, --vk-version and --attach to the profile picked with
+   * --profile (or the active one) and return its id. Without --profile,
+   * --attach uses a remote profile for that server, creating one if needed,
+   * rather than turning the active profile remote.
+   */
+  private applyCliSettings(options: CliOptions): string {
+    let profile = options.profile === undefined
+      ? this.configManager.getProfile(this.configManager.getActiveProfileId())
+      : this.configManager.getProfile(options.profile)
+        ?? this.configManager.getProfiles().find(candidate => candidate.name.toLowerCase() === options.profile?.toLowerCase());
+    if (!profile) {
+      throw new Error(`No profile with the id or name "${options.profile}"`);
+    }
+
+    if (options.cwd !== undefined) {
+      const problem = checkWorkingDirectory(options.cwd);
+      if (problem) {
+        throw new Error(problem);
+      }
+    }
+    if (options.vkVersion !== undefined && !parseVersionSpec(options.vkVersion)) {
+      throw new Error(`Invalid version "${options.vkVersion}". Use "latest", an exact version like 0.0.55, or a path.`);
+    }
+
+    if (options.attach !== undefined) {
+      const remoteUrl = normalizeRemoteUrl(options.attach);
+      if (!remoteUrl) {
+        throw new Error(`Invalid server URL "${options.attach}". Use an http:// or https:// URL.`);
+      }
+      if (options.profile === undefined) {
+        profile = this.configManager.getProfiles().find(candidate => candidate.mode === 'remote' && candidate.remoteUrl === remoteUrl)
+          ?? this.configManager.createProfile(new URL(remoteUrl).host);
+      }
+      profile = { ...profile, mode: 'remote', remoteUrl };
+    }
+
+    this.configManager.updateProfile({
+      ...profile,
+      port: options.port ?? profile.port,
+      cwd: options.cwd ?? profile.cwd,
+      vkVersion: options.vkVersion ?? profile.vkVersion,
+    });
+    if (options.cwd !== undefined) {
+      this.configManager.addRecentDirectory(options.cwd);
+    }
+    this.configManager.setActiveProfileId(profile.id);
+    return profile.id;
+  }
+
+  /**
+   * Stop every server and start over from a fresh config, with each window
+   * back on the setup screen.
+   */
+  private async resetConfig(): Promise<void> {
+    console.log('Resetting config');
+    await this.stopAll();
+    for (const instance of this.instances.values()) {
+      instance.taskWatcher.stop();
+      instance.logsWindow?.close();
+      this.notificationManager.forget(instance.profileId);
+    }
+    this.instances.clear();
+
+    this.configManager.reset();
+    this.applyNetworkSettings();
+    for (const windowManager of this.windowManagers) {
+      windowManager.setProfileName(null);
+      windowManager.showSetupScreen();
+    }
+    this.updateMenus();
+  }
+
+  /**
+   * The installers register vk-wrapper:// for packaged builds (and Squirrel
+   * on first run). A development build registers itself, passing the app path
+   * so the link starts this checkout.
+   */
+  private registerProtocol(): void {
+    if (process.defaultApp && process.argv.length >= 2) {
+      app.setAsDefaultProtocolClient(DEEP_LINK_PROTOCOL, process.execPath, [path.resolve(process.argv[1])]);
+    } else if (!app.isDefaultProtocolClient(DEEP_LINK_PROTOCOL)) {
+      app.setAsDefaultProtocolClient(DEEP_LINK_PROTOCOL);
+    }
+  }
+
+  /**
+   * Open a vk-wrapper:// link on its profile's board. `windowManager` is used
+   * when the profile has no window yet, e.g. the launcher opened at startup.
+   */
+  private openDeepLink(url: string, windowManager?: WindowManager): void {
+    if (!this.initialized) {
+      this.pendingDeepLink = url;
+      return;
+    }
+
+    const link = parseDeepLink(url);
+    if (!link) {
+      console.warn('Ignoring unsupported link:', url);
+      this.focusAnyWindow();
+      return;
+    }
+
+    const profileId = link.profileId ?? this.configManager.getActiveProfileId();
+    if (!this.configManager.getProfile(profileId)) {
+      dialog.showErrorBox('Unknown profile', `The link ${url} refers to a profile that doesn't exist: ${profileId}`);
+      return;
+    }
+
+    console.log(`[${profileId}] Opening link ${link.route}`);
+    this.openBoardRoute(profileId, link.route, windowManager);
+  }
+
+  /**
+   * Show a page of a profile's board, starting its server first if it isn't
+   * running. The route becomes the profile's last route, which is where the
+   * board opens once it's loaded.
+   */
+  private openBoardRoute(profileId: string, route?: string, windowManager?: WindowManager): void {
+    if (route) {
+      this.configManager.setLastRoute(profileId, route);
+    }
+
+    const instance = this.getInstance(profileId);
+    const url = instance.serverManager.getUrl();
+    if (url) {
+      if (route && instance.windowManager) {
+        instance.windowManager.loadServerUrl(url, profileId);
+      }
+      this.showProfileWindow(profileId);
+      return;
+    }
+
+    // Already starting: the board opens on the new route when it's ready
+    if (instance.serverManager.isStarting() && instance.windowManager) {
+      this.showProfileWindow(profileId);
+      return;
+    }
+
+    const target = instance.windowManager ?? windowManager ?? this.openLauncher(profileId);
+    target.getWindow()?.show();
+    target.getWindow()?.focus();
+    this.configManager.setActiveProfileId(profileId);
+    target.showLoadingScreen();
+    this.launchServer(target, profileId);
+  }
+
+  private focusAnyWindow(): void {
+    const window = BrowserWindow.getFocusedWindow()
+      ?? [...this.windowManagers].map(windowManager => windowManager.getWindow()).find(Boolean);
+    if (window) {
+      if (window.isMinimized()) {
+        window.restore();
+      }
+      window.show();
+      window.focus();
+    } else {
+      this.openLauncher();
+    }
+  }
+
+  private async checkForUpdates(): Promise<void> {
+    // A manual check always reports what it finds
+    this.notifiedUpdateVersion = null;
+    const state = await this.updateManager.check();
+
+    if (state.status === 'up-to-date' || state.status === 'error') {
+      await dialog.showMessageBox({
+        type: state.status === 'error' ? 'warning' : 'info',
+        message: state.status === 'error' ? 'Could not check for updates' : 'VK Wrapper is up to date',
+        detail: state.status === 'error' ? state.message : `You have the latest version, ${app.getVersion()}.`,
+      });
+    }
+  }
+
+  private async handleUpdateState(state: UpdateState): Promise<void> {
+    if (state.status !== 'available' && state.status !== 'ready') {
+      return;
+    }
+    if (this.notifiedUpdateVersion === state.update.version) {
+      return;
+    }
+    this.notifiedUpdateVersion = state.update.version;
+
+    if (state.status === 'available') {
+      // No in-place install here (deb/rpm); point at the release instead
+      const { response } = await dialog.showMessageBox({
+        type: 'info',
+        message: `VK Wrapper ${state.update.version} is available`,
+        detail: `You have ${app.getVersion()}. Download the new version from the release page.`,
+        buttons: ['Open Release Page', 'Later'],
+        defaultId: 0,
+        cancelId: 1,
+      });
+      if (response === 0) {
+        shell.openExternal(state.update.url);
+      }
+      return;
+    }
+
+    const { response } = await dialog.showMessageBox({
+      type: 'info',
+      message: `VK Wrapper ${state.update.version} is ready to install`,
+      detail: 'Restarting stops the running servers and installs the update.',
+      buttons: ['Restart Now', 'Later'],
+      defaultId: 0,
+      cancelId: 1,
+    });
+    if (response === 0) {
+      await this.installUpdate();
+    }
+  }
+
+  /**
+   * Stop every server cleanly, then restart into the downloaded update.
+   */
+  private async installUpdate(): Promise<void> {
+    this.isQuitting = true;
+    this.updateManager.stopPolling();
+    console.log('Stopping servers before installing the update...');
+    await this.stopAll();
+    this.trayManager.destroy();
+    this.updateManager.quitAndInstall();
+  }
+
+  private updateMenus(): void {
+    this.trayManager.update();
+    this.menuManager.update();
+  }
+
+  /**
+   * Open a window showing the config screen. Launching a profile from it
+   * turns it into that profile's board window. A window opened for a profile
+   * appears where that profile's window was last.
+   */
+  private openLauncher(profileId?: string): WindowManager {
+    const windowManager = new WindowManager(this.configManager);
+    const window = windowManager.createMainWindow(profileId);
+    this.windowManagers.add(windowManager);
+
+    window.on('closed', () => {
+      this.windowManagers.delete(windowManager);
+
+      const instance = [...this.instances.values()].find(candidate => candidate.windowManager === windowManager);
+      if (instance) {
+        instance.windowManager = null;
+        // On macOS the app stays alive and activate brings the board back, and
+        // with minimize-to-tray the tray does. Otherwise nothing could reopen
+        // it, so stop the server with its window
+        if (process.platform !== 'darwin' && !this.isQuitting && !this.configManager.getMinimizeToTray()) {
+          instance.supervisor.stop();
+        }
+      }
+    });
+
+    return windowManager;
+  }
+
+  private findWindowManager(sender: WebContents): WindowManager | undefined {
+    return [...this.windowManagers].find(windowManager => windowManager.getWindow()?.webContents === sender);
+  }
+
+  private getFocusedWindowManager(): WindowManager | undefined {
+    const focused = BrowserWindow.getFocusedWindow();
+    return focused ? this.findWindowManager(focused.webContents) : undefined;
+  }
+
+  /**
+   * The profile the menu acts on: the one shown in the focused board or log
+   * window, otherwise the last launched one.
+   */
+  private getFocusedProfile(): MenuProfileState | null {
+    const focused = BrowserWindow.getFocusedWindow();
+    const instance = [...this.instances.values()].find(candidate =>
+      (candidate.windowManager !== null && candidate.windowManager.getWindow() === focused)
+      || (candidate.logsWindow !== null && candidate.logsWindow === focused));
+    const profile = this.configManager.getProfile(instance?.profileId ?? this.configManager.getActiveProfileId());
+    if (!profile) {
+      return null;
+    }
+
+    const serverManager = this.instances.get(profile.id)?.serverManager;
+    return {
+      id: profile.id,
+      name: profile.name,
+      running: serverManager?.isRunning() ?? false,
+      remote: profile.mode === 'remote',
+      version: serverManager?.getVersion() ?? null,
+    };
+  }
+
+  private findLogsInstance(sender: WebContents): ProfileInstance | undefined {
+    return [...this.instances.values()].find(instance => instance.logsWindow?.webContents === sender);
+  }
+
+  private getInstance(profileId: string): ProfileInstance {
+    const existing = this.instances.get(profileId);
+    if (existing) {
+      return existing;
+    }
+
+    const serverManager = this.createServerManager(profileId);
+    const logManager = serverManager.getLogManager();
+    const supervisor = new ServerSupervisor(serverManager, this.configManager);
+    const taskWatcher = new TaskWatcher(
+      () => serverManager.getUrl(),
+      () => this.configManager.getNetworkSettings(),
+    );
+    const instance: ProfileInstance = {
+      profileId,
+      serverManager,
+      supervisor,
+      logManager,
+      taskWatcher,
+      windowManager: null,
+      logsWindow: null,
+      lastError: null,
+    };
+
+    // Stream new log lines to the log window while it's open
+    logManager.on('entry', (entry: LogEntry) => {
+      instance.logsWindow?.webContents.send('logs-entry', entry);
+    });
+
+    serverManager.on('health', (state: HealthState) => {
+      instance.windowManager?.showHealthStatus(state);
+      this.updateMenus();
+    });
+
+    serverManager.on('exit', () => this.updateMenus());
+
+    serverManager.on('progress', (progress: StartupProgress) => {
+      instance.windowManager?.showStartupProgress(progress);
+    });
+
+    taskWatcher.on('event', (event: TaskEvent) => {
+      this.notificationManager.notify(profileId, event);
+    });
+    taskWatcher.start();
+
+    // Keep the window in sync with server restarts
+    supervisor.on('restarting', (attempt: number, delayMs: number) => {
+      instance.windowManager?.showHealthStatus(null);
+      instance.windowManager?.showRestarting(attempt, delayMs, supervisor.isRemote());
+    });
+
+    supervisor.on('ready', (url: string) => {
+      console.log(`[${profileId}] Server restarted at:`, url);
+      instance.windowManager?.showHealthStatus('ready');
+      instance.windowManager?.reloadServerUrl(url, profileId);
+      this.updateMenus();
+    });
+
+    supervisor.on('gave-up', (message: string) => {
+      this.showServerError(instance, new ServerError('crashed', message));
+      this.updateMenus();
+    });
+
+    this.instances.set(profileId, instance);
+    return instance;
+  }
+
+  private createServerManager(profileId: string): ServerManager {
+    if (!this.configManager.getProfile(profileId)) {
+      throw new Error(`Profile not found: ${profileId}`);
+    }
+
+    const logManager = new LogManager(path.join(app.getPath('userData'), 'logs', profileId));
+    return new ServerManager(
+      this.configManager,
+      profileId,
+      logManager,
+      this.packageCache,
+      this.shellEnvironment,
+    );
+  }
+
+  private openLogsWindow(profileId: string): void {
+    const instance = this.getInstance(profileId);
+    if (instance.logsWindow && !instance.logsWindow.isDestroyed()) {
+      instance.logsWindow.focus();
+      return;
+    }
+
+    const profile = this.configManager.getProfile(profileId);
+    instance.logsWindow = WindowManager.createLogsWindow(profile?.name || profileId);
+    instance.logsWindow.on('closed', () => {
+      instance.logsWindow = null;
+    });
+  }
+
+  /**
+   * Decide which port to start on. The profile's port (or the last bound one,
+   * if reuse is on) is used when free. When it's taken by a server left over
+   * from a previous session the user can attach to it or stop it; otherwise
+   * the next free port in the fallback range is used. Returns null if the
+   * user cancelled.
+   */
+  private async choosePort(
+    instance: ProfileInstance,
+    profile: Profile,
+    windowManager: WindowManager | null,
+  ): Promise<PortChoice | null> {
+    const range = profile.portRange ? parsePortRange(profile.portRange) : null;
+    const preferred = profile.port ?? (profile.reuseLastPort ? profile.lastPort : undefined);
+    const log = (message: string) => instance.logManager.append('system', `${message}\n`);
+
+    if (preferred) {
+      if (await isPortFree(preferred)) {
+        return { kind: 'spawn', port: preferred };
+      }
+
+      const owner = await findPortOwner(preferred);
+      if (owner && this.isOrphanedServer(owner)) {
+        const response = await this.askAboutOrphan(preferred, owner, windowManager);
+        if (response === 'cancel') {
+          return null;
+        }
+        if (response === 'attach') {
+          return { kind: 'attach', url: `http://localhost:${preferred}`, pid: await this.orphanRoot(owner) };
+        }
+        if (response === 'kill') {
+          log(`Stopping leftover server on port ${preferred} (pid ${owner.pid})`);
+          await new ProcessTree(await this.orphanRoot(owner)).terminate(3000);
+          if (await isPortFree(preferred)) {
+            return { kind: 'spawn', port: preferred };
+          }
+        }
+      }
+
+      const fallback = await findFreePort(
+        range ?? { start: preferred + 1, end: Math.min(preferred + 100, 65535) },
+        [preferred],
+      );
+      if (!fallback) {
+        throw new Error(`Port ${preferred} is already in use and no free port was found${range ? ` in ${profile.portRange}` : ''}.`);
+      }
+      log(`Port ${preferred} is in use${owner?.command ? ` by ${owner.command}` : ''}, starting on ${fallback} instead`);
+      return { kind: 'spawn', port: fallback };
+    }
+
+    if (range) {
+      const port = await findFreePort(range);
+      if (!port) {
+        throw new Error(`No free port in ${profile.portRange}.`);
+      }
+      return { kind: 'spawn', port };
+    }
+
+    // Let vibe-kanban pick
+    return { kind: 'spawn' };
+  }
+
+  /**
+   * A vibe-kanban started from our package cache that none of the current
+   * profiles own must have outlived a previous session of the app.
+   */
+  private isOrphanedServer(owner: PortOwner): boolean {
+    if (!owner.command?.includes(this.packageCache.getCacheDir())) {
+      return false;
+    }
+    return ![...this.instances.values()].some(instance => instance.serverManager.getProcessIds().includes(owner.pid));
+  }
+
+  /**
+   * Where a leftover server's process tree starts. The process listening on
+   * the port is vibe-kanban's native binary, but the node wrapper that
+   * started it leads the process group its agents run in, so the group is
+   * used when its leader was started from our package cache too.
+   */
+  private async orphanRoot(owner: PortOwner): Promise<number> {
+    const leader = await findGroupLeader(owner.pid);
+    return leader?.command.includes(this.packageCache.getCacheDir()) ? leader.pid : owner.pid;
+  }
+
+  private async askAboutOrphan(
+    port: number,
+    owner: PortOwner,
+    windowManager: WindowManager | null,
+  ): Promise<'attach' | 'kill' | 'other-port' | 'cancel'> {
+    const options: Electron.MessageBoxOptions = {
+      type: 'question',
+      message: `Port ${port} is used by a vibe-kanban server from a previous session`,
+      detail: `Process ${owner.pid} is still running. You can use it as is, or stop it and start a new server.`,
+      buttons: ['Attach to It', 'Stop It and Start New', 'Use Another Port', 'Cancel'],
+      defaultId: 0,
+      cancelId: 3,
+    };
+    const window = windowManager?.getWindow();
+    const { response } = window
+      ? await dialog.showMessageBox(window, options)
+      : await dialog.showMessageBox(options);
+    return (['attach', 'kill', 'other-port', 'cancel'] as const)[response];
+  }
+
+  private async connectRemote(instance: ProfileInstance, profile: Profile): Promise<void> {
     try {
-      // Start the vibe-kanban server
-      console.log('Starting vibe-kanban server...', port ? `on port ${port}` : '(auto port)');
-      const serverUrl = await this.serverManager.startServer(port);
-      console.log('Server ready at:', serverUrl);
+      console.log(`[${profile.id}] Connecting to ${profile.remoteUrl}`);
+      const serverUrl = await instance.supervisor.start();
+      this.configManager.addSavedConnection(serverUrl);
+
+      instance.windowManager?.showHealthStatus('ready');
+      instance.windowManager?.loadServerUrl(serverUrl, profile.id);
+    } catch (error) {
+      if (error instanceof Error && error.message === STARTUP_CANCELLED) {
+        console.log(`[${profile.id}] Connection cancelled`);
+        instance.windowManager?.showConfigScreen();
+        this.updateMenus();
+        return;
+      }
+      console.error(`[${profile.id}] Failed to connect:`, error);
+      this.showServerError(instance, error);
+    }
+
+    this.updateMenus();
+  }
+
+  /**
+   * Start a profile's server and show it in the given window. Without a
+   * window (e.g. started from the tray) the server runs in the background.
+   */
+  private async launchServer(windowManager: WindowManager | null, profileId: string): Promise<void> {
+    const profile = this.configManager.getProfile(profileId);
+    if (!profile) {
+      windowManager?.showError(new ServerError('unknown', `Profile not found: ${profileId}`));
+      return;
+    }
+
+    const instance = this.getInstance(profileId);
+
+    // Already running in another window: bring that window forward instead
+    if (instance.windowManager && instance.windowManager !== windowManager && instance.serverManager.isRunning()) {
+      instance.windowManager.getWindow()?.focus();
+      return;
+    }
+
+    if (windowManager) {
+      instance.windowManager = windowManager;
+      windowManager.setProfileName(this.profileLabel(profileId));
+    }
+
+    if (profile.mode === 'remote') {
+      await this.connectRemote(instance, profile);
+      return;
+    }
+
+    try {
+      const choice = await this.choosePort(instance, profile, windowManager);
+      if (!choice) {
+        instance.windowManager?.showConfigScreen();
+        return;
+      }
+
+      let serverUrl: string;
+      if (choice.kind === 'attach') {
+        console.log(`[${profileId}] Attaching to running server at ${choice.url}`);
+        serverUrl = await instance.supervisor.adopt(choice.url, choice.pid);
+      } else {
+        // Start the vibe-kanban server
+        const port = choice.port;
+        console.log(`[${profileId}] Starting vibe-kanban server...`, port ? `on port ${port}` : '(auto port)');
+        serverUrl = await instance.supervisor.start(port);
+      }
+      console.log(`[${profileId}] Server ready at:`, serverUrl);
 
       // Load the server URL in the window
-      this.windowManager.loadServerUrl(serverUrl);
+      instance.windowManager?.showHealthStatus('ready');
+      instance.windowManager?.loadServerUrl(serverUrl, profileId);
     } catch (error) {
-      console.error('Failed to start server:', error);
-      this.windowManager.showError(
-        error instanceof Error ? error.message : 'Unknown error'
-      );
+      if (error instanceof Error && error.message === STARTUP_CANCELLED) {
+        console.log(`[${profileId}] Startup cancelled`);
+        instance.windowManager?.showConfigScreen();
+        this.updateMenus();
+        return;
+      }
+      console.error(`[${profileId}] Failed to start server:`, error);
+      this.showServerError(instance, error);
+    }
+
+    this.updateMenus();
+  }
+
+  /**
+   * Stop a profile's server and send its window back to the config screen.
+   */
+  private async stopServer(profileId: string): Promise<void> {
+    const instance = this.instances.get(profileId);
+    if (!instance) {
+      return;
+    }
+
+    await instance.supervisor.stop();
+    instance.windowManager?.showConfigScreen();
+    this.updateMenus();
+  }
+
+  private async restartServer(profileId: string): Promise<void> {
+    const instance = this.instances.get(profileId);
+    if (!instance) {
+      return;
+    }
+
+    instance.windowManager?.showHealthStatus(null);
+    try {
+      const url = await instance.supervisor.restart();
+      instance.windowManager?.showHealthStatus('ready');
+      instance.windowManager?.reloadServerUrl(url, profileId);
+    } catch (error) {
+      console.error(`[${profileId}] Failed to restart server:`, error);
+      this.showServerError(instance, error);
+    }
+    this.updateMenus();
+  }
+
+  /**
+   * Bring up a profile's window: focus it if it has one, otherwise open a new
+   * window showing its board (or the config screen if it isn't running).
+   */
+  private showProfileWindow(profileId: string): void {
+    const instance = this.getInstance(profileId);
+    const existing = instance.windowManager?.getWindow();
+    if (existing && !existing.isDestroyed()) {
+      existing.show();
+      existing.focus();
+      return;
+    }
+
+    const windowManager = this.openLauncher(profileId);
+    if (instance.serverManager.isRunning()) {
+      this.attachWindow(instance, windowManager);
+    } else {
+      this.configManager.setActiveProfileId(profileId);
+    }
+  }
+
+  /**
+   * Make a window show an already running profile's board.
+   */
+  private attachWindow(instance: ProfileInstance, windowManager: WindowManager): void {
+    const url = instance.serverManager.getUrl();
+    if (!url) {
+      return;
+    }
+
+    instance.windowManager = windowManager;
+    windowManager.setProfileName(this.profileLabel(instance.profileId));
+    windowManager.showHealthStatus(instance.serverManager.getHealthState());
+    windowManager.loadServerUrl(url, instance.profileId);
+  }
+
+  // Window titles only carry the profile name when there is more than one
+  private profileLabel(profileId: string): string | null {
+    return this.configManager.getProfiles().length > 1
+      ? this.configManager.getProfile(profileId)?.name ?? null
+      : null;
+  }
+
+  private showServerError(instance: ProfileInstance, error: unknown): void {
+    instance.lastError = classifyError(error);
+    instance.windowManager?.showError(instance.lastError, instance.profileId);
+  }
+
+  /**
+   * Ask where to save a diagnostics bundle, write it and reveal it. Resolves
+   * with the saved path, or null if cancelled.
+   */
+  private async saveDiagnosticsBundle(): Promise<string | null> {
+    const date = new Date().toISOString().slice(0, 10);
+    const options = {
+      title: 'Save diagnostics bundle',
+      defaultPath: `vk-wrapper-diagnostics-${date}.tar.gz`,
+      filters: [{ name: 'Archives', extensions: ['gz', 'tgz'] }],
+    };
+    const window = BrowserWindow.getFocusedWindow();
+    const result = window ? await dialog.showSaveDialog(window, options) : await dialog.showSaveDialog(options);
+    if (result.canceled || !result.filePath) {
+      return null;
+    }
+
+    const profiles: ProfileDiagnostics[] = this.configManager.getProfiles().map((profile) => {
+      const instance = this.instances.get(profile.id);
+      return {
+        id: profile.id,
+        name: profile.name,
+        running: instance?.serverManager.isRunning() ?? false,
+        url: instance?.serverManager.getUrl() ?? null,
+        version: instance?.serverManager.getVersion() ?? null,
+        health: instance?.serverManager.getHealthState() ?? null,
+        lastError: instance?.lastError ?? null,
+        logDir: instance?.logManager.getLogDir() ?? path.join(app.getPath('userData'), 'logs', profile.id),
+      };
+    });
+
+    try {
+      await this.diagnostics.writeBundle(result.filePath, profiles);
+    } catch (error) {
+      console.error('Failed to create diagnostics bundle:', error);
+      dialog.showErrorBox('Could not create diagnostics bundle', error instanceof Error ? error.message : String(error));
+      return null;
+    }
+    shell.showItemInFolder(result.filePath);
+    return result.filePath;
+  }
+
+  /**
+   * Save the shareable settings to a file picked by the user. Returns its
+   * path, or null if cancelled.
+   */
+  private async exportSettings(): Promise<string | null> {
+    const options = {
+      title: 'Export settings',
+      defaultPath: 'vk-wrapper-settings.json',
+      filters: [{ name: 'JSON', extensions: ['json'] }],
+    };
+    const window = BrowserWindow.getFocusedWindow();
+    const result = window ? await dialog.showSaveDialog(window, options) : await dialog.showSaveDialog(options);
+    if (result.canceled || !result.filePath) {
+      return null;
+    }
+
+    fs.writeFileSync(result.filePath, JSON.stringify(this.configManager.exportSettings(), null, 2));
+    return result.filePath;
+  }
+
+  /**
+   * Merge a settings file picked by the user into the config. Returns the
+   * number of profiles imported, or null if cancelled. Running servers pick
+   * up the new settings when they next start.
+   */
+  private async importSettings(): Promise<number | null> {
+    const options = {
+      title: 'Import settings',
+      filters: [{ name: 'JSON', extensions: ['json'] }],
+      properties: ['openFile' as const],
+    };
+    const window = BrowserWindow.getFocusedWindow();
+    const result = window ? await dialog.showOpenDialog(window, options) : await dialog.showOpenDialog(options);
+    if (result.canceled || result.filePaths.length === 0) {
+      return null;
+    }
+
+    const file = result.filePaths[0];
+    let count: number;
+    try {
+      count = this.configManager.importSettings(JSON.parse(fs.readFileSync(file, 'utf-8')));
+    } catch (error) {
+      const problem = error instanceof ConfigError
+        ? error.problems.map(line => `- ${line}`).join('\n')
+        : error instanceof Error ? error.message : String(error);
+      throw new Error(`${path.basename(file)} is not a valid settings file:\n${problem}`);
     }
+
+    console.log(`Imported ${count} profile(s) from ${file}`);
+    this.applyNetworkSettings();
+    for (const instance of this.instances.values()) {
+      instance.windowManager?.setProfileName(this.profileLabel(instance.profileId));
+    }
+    this.updateMenus();
+    return count;
+  }
+
+  /**
+   * Plain-text summary of a failure: versions, the profile's settings and the
+   * end of its server log.
+   */
+  private buildDiagnostics(profileId: string, error: ServerError): string {
+    const profile = this.configManager.getProfile(profileId);
+    const recentLog = this.instances.get(profileId)?.logManager.getEntries().slice(-50)
+      .map(entry => `${entry.time} [${entry.stream}] ${entry.line}`) ?? [];
+
+    return [
+      `VK Wrapper ${app.getVersion()} on ${process.platform} ${process.arch} (${os.release()})`,
+      `Electron ${process.versions.electron}, Node.js ${process.versions.node}`,
+      profile
+        ? `Profile: ${profile.mode === 'remote' ? `remote ${profile.remoteUrl}` : `local, vibe-kanban ${profile.vkVersion || 'latest'}, port ${profile.port ?? 'auto'}`}`
+        : `Profile: ${profileId} (not found)`,
+      `Node.js path: ${this.configManager.getNodePath() || '(not set)'}`,
+      '',
+      `Error (${error.kind}): ${error.message}`,
+      '',
+      'Recent log:',
+      ...recentLog,
+    ].join('\n');
+  }
+
+  private getTrayProfiles(): TrayProfileState[] {
+    return this.configManager.getProfiles().map((profile) => {
+      const serverManager = this.instances.get(profile.id)?.serverManager;
+      return {
+        id: profile.id,
+        name: profile.name,
+        running: serverManager?.isRunning() ?? false,
+        url: serverManager?.getUrl() ?? null,
+        health: serverManager?.getHealthState() ?? null,
+      };
+    });
+  }
+
+  private async stopAll(): Promise<void> {
+    await Promise.all([...this.instances.values()].map(instance => instance.supervisor.stop()));
+  }
+
+  /**
+   * Point the board windows' session at the configured proxy. npm and the
+   * server get the settings through their environment when they start.
+   */
+  private applyNetworkSettings(): void {
+    applyNetworkSettings(session.defaultSession, this.configManager.getNetworkSettings()).catch((error) => {
+      console.error('Failed to apply proxy settings:', error);
+    });
+  }
+
+  /**
+   * Whether strict SSL is off for a URL. It only covers the servers the
+   * setting is for: the registry and the remote profiles' boards.
+   */
+  private skipsCertificateCheck(url: string): boolean {
+    const { registry, strictSsl } = this.configManager.getNetworkSettings();
+    if (strictSsl !== false) {
+      return false;
+    }
+
+    const originOf = (value: string | undefined) => {
+      try {
+        return value ? new URL(value).origin : null;
+      } catch {
+        return null;
+      }
+    };
+    const origin = originOf(url);
+    const exempt = [
+      registry,
+      ...this.configManager.getProfiles().filter(profile => profile.mode === 'remote').map(profile => profile.remoteUrl),
+    ];
+    return origin !== null && exempt.some(candidate => originOf(candidate) === origin);
   }
 
   private setupEventHandlers(): void {
-    // macOS: re-create window when dock icon clicked
+    // Answer the proxy's login prompt with the credentials in its URL
+    app.on('login', (event, _webContents, _details, authInfo, callback) => {
+      if (!authInfo.isProxy) {
+        return;
+      }
+      const credentials = proxyCredentials(this.configManager.getNetworkSettings(), authInfo.host, authInfo.port);
+      if (credentials) {
+        event.preventDefault();
+        callback(credentials.username, credentials.password);
+      }
+    });
+
+    // Trust servers (e.g. behind a TLS-inspecting proxy) whose certificates
+    // come from the configured CA bundle, and the registry and remote boards
+    // with strict SSL off
+    app.on('certificate-error', (event, _webContents, url, error, certificate, callback) => {
+      const { caFile } = this.configManager.getNetworkSettings();
+      const trusted = this.skipsCertificateCheck(url)
+        || (caFile && error === 'net::ERR_CERT_AUTHORITY_INVALID' && isTrustedByCaBundle(certificate, caFile));
+      if (trusted) {
+        event.preventDefault();
+        callback(true);
+      }
+    });
+
+    // macOS: re-create windows when dock icon clicked
     app.on('activate', () => {
       if (BrowserWindow.getAllWindows().length === 0) {
-        this.windowManager.createMainWindow();
-        if (this.serverManager.isRunning()) {
-          const url = this.serverManager.getUrl();
-          if (url) {
-            this.windowManager.loadServerUrl(url);
+        let reopened = false;
+        for (const instance of this.instances.values()) {
+          if (instance.serverManager.isRunning()) {
+            this.showProfileWindow(instance.profileId);
+            reopened = true;
           }
         }
+
+        if (!reopened) {
+          this.openLauncher();
+        }
       }
     });
 
@@ -118,9 +1492,10 @@ class VibeKanbanApp {
         event.preventDefault();
         this.isQuitting = true;
 
-        console.log('Shutting down server...');
-        await this.serverManager.killServer();
-        console.log('Server stopped');
+        console.log('Shutting down servers...');
+        await this.stopAll();
+        console.log('Servers stopped');
+        this.trayManager.destroy();
 
         app.quit();
       }
@@ -128,8 +1503,9 @@ class VibeKanbanApp {
 
     // Handle all windows closed
     app.on('window-all-closed', () => {
-      // On macOS, apps typically stay open until Cmd+Q
-      if (process.platform !== 'darwin') {
+      // On macOS, apps typically stay open until Cmd+Q. With minimize-to-tray
+      // the servers keep running and the tray menu brings the windows back
+      if (process.platform !== 'darwin' && !this.configManager.getMinimizeToTray()) {
         app.quit();
       }
     });
@@ -142,11 +1518,55 @@ class VibeKanbanApp {
   private async gracefulShutdown(): Promise<void> {
     if (!this.isQuitting) {
       this.isQuitting = true;
-      await this.serverManager.killServer();
+      await this.stopAll();
       app.exit(0);
     }
   }
 }
 
-const vibeKanbanApp = new VibeKanbanApp();
-vibeKanbanApp.initialize().catch(console.error);
+/**
+ * Parse the command line, handle the flags that don't need the app running,
+ * and start it. One instance owns the servers; later launches (e.g. from a
+ * link) hand their arguments to it through 'second-instance' and exit.
+ */
+function main(): void {
+  // Development runs put the app path before the arguments
+  const args = process.argv.slice(process.defaultApp ? 2 : 1);
+  let options: CliOptions;
+  try {
+    options = parseCliArgs(args);
+  } catch (error) {
+    console.error(`vk-wrapper: ${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+    app.exit(2);
+    return;
+  }
+
+  if (options.help) {
+    console.log(USAGE);
+    app.exit(0);
+    return;
+  }
+  if (options.printConfig) {
+    const configManager = new ConfigManager({ readOnly: true });
+    const problem = configManager.getLoadProblem();
+    if (problem) {
+      console.error(problem);
+      app.exit(1);
+      return;
+    }
+    console.log(JSON.stringify(configManager.getRedactedConfig(), null, 2));
+    app.exit(0);
+    return;
+  }
+
+  if (app.requestSingleInstanceLock({ cli: options })) {
+    const vibeKanbanApp = new VibeKanbanApp(options);
+    vibeKanbanApp.initialize().catch(console.error);
+  } else {
+    app.quit();
+  }
+}
+
+if (!started) {
+  main();
+}
@@ -0,0 +1,199 @@
+import { app, BaseWindow, BrowserWindow, dialog, Menu, MenuItemConstructorOptions } from 'electron';
+
+export interface MenuProfileState {
+  id: string;
+  name: string;
+  running: boolean;
+  remote: boolean;
+  // The vibe-kanban version that is running, when known
+  version: string | null;
+}
+
+/**
+ * What the application menu can ask the app to do. Like the tray, the menu
+ * only renders state; commands act on the profile of the focused window.
+ */
+export interface MenuActions {
+  getFocusedProfile(): MenuProfileState | null;
+  start(profileId: string): void;
+  stop(profileId: string): void;
+  restart(profileId: string): void;
+  changePort(profileId: string): void;
+  showLogs(profileId: string): void;
+  reloadBoard(profileId: string): void;
+  showSettings(): void;
+  showSetup(): void;
+  newWindow(): void;
+  checkForUpdates(): void;
+  createDiagnosticsBundle(): void;
+}
+
+export class MenuManager {
+  private actions: MenuActions;
+
+  constructor(actions: MenuActions) {
+    this.actions = actions;
+  }
+
+  /**
+   * Rebuild the menu for the focused window's profile. Call whenever focus
+   * moves or a server starts or stops.
+   */
+  update(): void {
+    const profile = this.actions.getFocusedProfile();
+    const isMac = process.platform === 'darwin';
+
+    const template: MenuItemConstructorOptions[] = [
+      ...(isMac ? [{ role: 'appMenu' } as MenuItemConstructorOptions] : []),
+      {
+        label: 'Server',
+        submenu: this.serverItems(profile),
+      },
+      // Text fields need the edit roles for copy/paste shortcuts on macOS
+      { role: 'editMenu' },
+      {
+        label: 'View',
+        submenu: [
+          {
+            label: 'Reload Board',
+            accelerator: 'CmdOrCtrl+R',
+            enabled: profile?.running ?? false,
+            click: () => profile && this.actions.reloadBoard(profile.id),
+          },
+          {
+            label: 'Back',
+            accelerator: isMac ? 'Cmd+[' : 'Alt+Left',
+            click: (_item, window) => this.navigate(window, -1),
+          },
+          {
+            label: 'Forward',
+            accelerator: isMac ? 'Cmd+]' : 'Alt+Right',
+            click: (_item, window) => this.navigate(window, 1),
+          },
+          { type: 'separator' },
+          { role: 'resetZoom', accelerator: 'CmdOrCtrl+0' },
+          { role: 'zoomIn', accelerator: 'CmdOrCtrl+=' },
+          { role: 'zoomOut', accelerator: 'CmdOrCtrl+-' },
+          { type: 'separator' },
+          { role: 'togglefullscreen' },
+          ...(app.isPackaged ? [] : [
+            { type: 'separator' },
+            { role: 'toggleDevTools', accelerator: isMac ? 'Alt+Cmd+I' : 'Ctrl+Shift+I' },
+          ] as MenuItemConstructorOptions[]),
+        ],
+      },
+      {
+        label: 'Settings',
+        submenu: [
+          {
+            label: 'Profile Settings...',
+            accelerator: 'CmdOrCtrl+,',
+            click: () => this.actions.showSettings(),
+          },
+          {
+            label: 'Change Node.js...',
+            accelerator: 'CmdOrCtrl+Shift+,',
+            click: () => this.actions.showSetup(),
+          },
+          { type: 'separator' },
+          {
+            label: 'New Window',
+            accelerator: 'CmdOrCtrl+Shift+N',
+            click: () => this.actions.newWindow(),
+          },
+        ],
+      },
+      ...(isMac ? [{ role: 'windowMenu' } as MenuItemConstructorOptions] : []),
+      {
+        role: 'help',
+        submenu: [
+          {
+            label: 'About VK Wrapper',
+            accelerator: 'F1',
+            click: (_item, window) => this.showAbout(profile, window),
+          },
+          {
+            label: 'Check for Updates...',
+            click: () => this.actions.checkForUpdates(),
+          },
+          { type: 'separator' },
+          {
+            label: 'Create Diagnostics Bundle...',
+            click: () => this.actions.createDiagnosticsBundle(),
+          },
+        ],
+      },
+    ];
+
+    Menu.setApplicationMenu(Menu.buildFromTemplate(template));
+  }
+
+  private serverItems(profile: MenuProfileState | null): MenuItemConstructorOptions[] {
+    const running = profile?.running ?? false;
+    const local = profile !== null && !profile.remote;
+
+    return [
+      ...(profile ? [{ label: profile.name, enabled: false }, { type: 'separator' }] as MenuItemConstructorOptions[] : []),
+      {
+        label: profile?.remote ? 'Connect' : 'Start',
+        accelerator: 'CmdOrCtrl+Shift+S',
+        enabled: profile !== null && !running,
+        click: () => profile && this.actions.start(profile.id),
+      },
+      {
+        label: profile?.remote ? 'Disconnect' : 'Stop',
+        accelerator: 'CmdOrCtrl+Shift+X',
+        enabled: running,
+        click: () => profile && this.actions.stop(profile.id),
+      },
+      {
+        label: profile?.remote ? 'Reconnect' : 'Restart',
+        accelerator: 'CmdOrCtrl+Shift+R',
+        enabled: running,
+        click: () => profile && this.actions.restart(profile.id),
+      },
+      { type: 'separator' },
+      {
+        label: 'Change Port...',
+        accelerator: 'CmdOrCtrl+Shift+P',
+        enabled: local,
+        click: () => profile && this.actions.changePort(profile.id),
+      },
+      {
+        label: 'Show Logs',
+        accelerator: 'CmdOrCtrl+Shift+L',
+        enabled: profile !== null,
+        click: () => profile && this.actions.showLogs(profile.id),
+      },
+    ];
+  }
+
+  private navigate(window: BaseWindow | undefined, offset: -1 | 1): void {
+    if (!(window instanceof BrowserWindow)) {
+      return;
+    }
+    const history = window.webContents.navigationHistory;
+    if (offset < 0 && history.canGoBack()) {
+      history.goBack();
+    } else if (offset > 0 && history.canGoForward()) {
+      history.goForward();
+    }
+  }
+
+  private showAbout(profile: MenuProfileState | null, window: BaseWindow | undefined): void {
+    const detail = [
+      `VK Wrapper ${app.getVersion()}`,
+      `vibe-kanban ${profile?.version ?? (profile?.remote ? 'remote' : 'not running')}`,
+      `Electron ${process.versions.electron}`,
+      `Chromium ${process.versions.chrome}`,
+      `Node.js ${process.versions.node}`,
+    ].join('\n');
+
+    const options = { type: 'info' as const, title: 'About VK Wrapper', message: 'VK Wrapper', detail };
+    if (window instanceof BrowserWindow) {
+      dialog.showMessageBox(window, options);
+    } else {
+      dialog.showMessageBox(options);
+    }
+  }
+}
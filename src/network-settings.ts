@@ -0,0 +1,211 @@
+import type { Certificate, Session } from 'electron';
+import { X509Certificate } from 'crypto';
+import fs from 'fs';
+import type { NetworkSettings } from './config-manager';
+
+export const DEFAULT_REGISTRY = 'https://registry.npmjs.org/';
+
+export function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check and tidy network settings from the settings form: blank fields are
+ * dropped, URLs must be http(s) and the CA file must be readable PEM.
+ */
+export function normalizeNetworkSettings(settings: NetworkSettings): NetworkSettings {
+  const result: NetworkSettings = {};
+
+  const urlFields = [
+    ['registry', 'Registry URL'],
+    ['httpProxy', 'HTTP proxy'],
+    ['httpsProxy', 'HTTPS proxy'],
+  ] as const;
+  for (const [field, label] of urlFields) {
+    const value = settings[field]?.trim();
+    if (!value) {
+      continue;
+    }
+    if (!isHttpUrl(value)) {
+      throw new Error(`${label} must be an http:// or https:// URL`);
+    }
+    result[field] = value;
+  }
+
+  const noProxy = settings.noProxy?.split(',').map(entry => entry.trim()).filter(Boolean).join(',');
+  if (noProxy) {
+    result.noProxy = noProxy;
+  }
+
+  const caFile = settings.caFile?.trim();
+  if (caFile) {
+    readCaBundle(caFile);
+    result.caFile = caFile;
+  }
+
+  if (settings.strictSsl === false) {
+    result.strictSsl = false;
+  }
+  return result;
+}
+
+/**
+ * Read the certificates in a PEM bundle. Throws if the file can't be read or
+ * holds none.
+ */
+export function readCaBundle(caFile: string): string[] {
+  let content: string;
+  try {
+    content = fs.readFileSync(caFile, 'utf-8');
+  } catch (error) {
+    throw new Error(`Can't read the CA bundle ${caFile}: ${error instanceof Error ? error.message : error}`);
+  }
+  const certificates = content.match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g);
+  if (!certificates) {
+    throw new Error(`${caFile} has no PEM certificates in it`);
+  }
+  return certificates;
+}
+
+/**
+ * Environment variables that point npm, and the proxy-aware tools the server
+ * runs, at the configured registry, proxy and CA bundle. Only what's set is
+ * included, so npm's own config (.npmrc) still applies otherwise.
+ */
+export function networkEnv(settings: NetworkSettings): Record<string, string> {
+  const env: Record<string, string> = {};
+
+  if (settings.registry) {
+    env.npm_config_registry = settings.registry;
+  }
+  if (settings.httpProxy) {
+    env.npm_config_proxy = settings.httpProxy;
+    env.HTTP_PROXY = settings.httpProxy;
+    env.http_proxy = settings.httpProxy;
+  }
+  // npm sends https:// requests through the HTTP proxy when there's no HTTPS one
+  const httpsProxy = settings.httpsProxy || settings.httpProxy;
+  if (httpsProxy) {
+    env.npm_config_https_proxy = httpsProxy;
+    env.HTTPS_PROXY = httpsProxy;
+    env.https_proxy = httpsProxy;
+  }
+  if (settings.noProxy) {
+    env.npm_config_noproxy = settings.noProxy;
+    env.NO_PROXY = settings.noProxy;
+    env.no_proxy = settings.noProxy;
+  }
+  if (settings.caFile) {
+    env.npm_config_cafile = settings.caFile;
+    // Node.js (and so vibe-kanban itself) adds these to its trusted roots
+    env.NODE_EXTRA_CA_CERTS = settings.caFile;
+  }
+  if (settings.strictSsl === false) {
+    env.npm_config_strict_ssl = 'false';
+  }
+
+  return env;
+}
+
+/**
+ * The proxy a request to `url` goes through, or null when it's direct: no
+ * proxy for its scheme, or its host matches the no-proxy list.
+ */
+export function proxyFor(url: URL, settings: NetworkSettings): string | null {
+  const proxy = url.protocol === 'https:' ? settings.httpsProxy || settings.httpProxy : settings.httpProxy;
+  if (!proxy) {
+    return null;
+  }
+
+  const host = url.hostname.toLowerCase();
+  const bypassed = (settings.noProxy || '').split(',').map(entry => entry.trim().toLowerCase()).some((entry) => {
+    if (entry === '*') {
+      return true;
+    }
+    const domain = entry.replace(/^\*?\./, '');
+    return domain !== '' && (host === domain || host.endsWith(`.${domain}`));
+  });
+  return bypassed ? null : proxy;
+}
+
+/**
+ * Route the board windows through the configured proxy, or the system proxy
+ * when none is set. Local servers are always reached directly.
+ */
+export async function applyNetworkSettings(session: Session, settings: NetworkSettings): Promise<void> {
+  // Chromium takes proxy credentials from the 'login' event, not the rules
+  const hostOf = (proxy: string) => {
+    const url = new URL(proxy);
+    return `${url.protocol}//${url.host}`;
+  };
+  const httpsProxy = settings.httpsProxy || settings.httpProxy;
+  const rules = [
+    settings.httpProxy && `http=${hostOf(settings.httpProxy)}`,
+    httpsProxy && `https=${hostOf(httpsProxy)}`,
+  ].filter(Boolean);
+
+  if (rules.length === 0) {
+    await session.setProxy({ mode: 'system' });
+    return;
+  }
+  await session.setProxy({
+    mode: 'fixed_servers',
+    proxyRules: rules.join(';'),
+    proxyBypassRules: ['<local>', ...(settings.noProxy?.split(',') ?? [])].join(','),
+  });
+}
+
+/**
+ * Username and password for a proxy Chromium asks about, from the proxy
+ * URLs in the settings.
+ */
+export function proxyCredentials(settings: NetworkSettings, host: string, port: number): { username: string; password: string } | null {
+  for (const proxy of [settings.httpProxy, settings.httpsProxy]) {
+    if (!proxy) {
+      continue;
+    }
+    const url = new URL(proxy);
+    const proxyPort = Number(url.port || (url.protocol === 'https:' ? 443 : 80));
+    if (url.hostname === host && proxyPort === port && url.username) {
+      return { username: decodeURIComponent(url.username), password: decodeURIComponent(url.password) };
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether a certificate Chromium couldn't verify chains up to one of the
+ * authorities in the CA bundle.
+ */
+export function isTrustedByCaBundle(certificate: Certificate, caFile: string): boolean {
+  let authorities: X509Certificate[];
+  try {
+    authorities = readCaBundle(caFile).map(pem => new X509Certificate(pem));
+  } catch (error) {
+    console.warn('Failed to read CA bundle:', error);
+    return false;
+  }
+
+  for (let current: Certificate | undefined = certificate; current; current = current.issuerCert) {
+    const cert = new X509Certificate(current.data);
+    if (authorities.some(authority => cert.checkIssued(authority) && cert.verify(authority.publicKey))) {
+      return true;
+    }
+
+    const issuer = current.issuerCert;
+    if (!issuer || issuer.fingerprint === current.fingerprint) {
+      return false;
+    }
+    // Each link has to be signed by the next one up
+    const issuerCert = new X509Certificate(issuer.data);
+    if (!cert.checkIssued(issuerCert) || !cert.verify(issuerCert.publicKey)) {
+      return false;
+    }
+  }
+  return false;
+}
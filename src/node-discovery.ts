@@ -0,0 +1,208 @@
+import { execFile } from 'child_process';
+import path from 'path';
+import os from 'os';
+import fs from 'fs';
+import { ShellEnvironment } from './shell-environment';
+
+// Oldest Node.js major version vibe-kanban runs on
+export const MIN_NODE_MAJOR = 18;
+
+export interface NodeCandidate {
+  nodePath: string;
+  npxPath: string;
+  version: string | null;
+  // Where it was found: "PATH", "nvm", "Homebrew", ...
+  source: string;
+  supported: boolean;
+  // Why it can't be used, when unsupported
+  reason?: string;
+  recommended: boolean;
+}
+
+const isWindows = process.platform === 'win32';
+const NODE_BINARY = isWindows ? 'node.exe' : 'node';
+const NPX_BINARY = isWindows ? 'npx.cmd' : 'npx';
+
+function parseMajor(version: string): number {
+  return parseInt(version.replace(/^v/, '').split('.')[0], 10) || 0;
+}
+
+function compareVersions(a: string, b: string): number {
+  const partsA = a.replace(/^v/, '').split('.').map(n => parseInt(n, 10) || 0);
+  const partsB = b.replace(/^v/, '').split('.').map(n => parseInt(n, 10) || 0);
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const diff = (partsA[i] || 0) - (partsB[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * List the subdirectories of a version manager's install directory, joined
+ * with the path to the bin directory inside each install.
+ */
+function versionDirs(root: string, ...binSegments: string[]): string[] {
+  try {
+    return fs.readdirSync(root)
+      .filter(dir => !dir.startsWith('.'))
+      .map(dir => path.join(root, dir, ...binSegments));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Finds node/npx installations on this machine so the setup screen can offer
+ * them instead of asking the user to type paths.
+ */
+export class NodeDiscovery {
+  private shellEnvironment: ShellEnvironment;
+  private readonly VERSION_TIMEOUT = 5000; // 5 seconds
+
+  constructor(shellEnvironment: ShellEnvironment) {
+    this.shellEnvironment = shellEnvironment;
+  }
+
+  /**
+   * Scan the shell PATH and well-known version manager locations. Candidates
+   * are deduplicated by real path, checked with `node --version`, and the
+   * best supported one is marked as recommended.
+   */
+  async discover(): Promise<NodeCandidate[]> {
+    const env = await this.shellEnvironment.get();
+    const seen = new Set<string>();
+    const found: Array<{ dir: string; source: string }> = [];
+
+    for (const { dir, source } of this.candidateDirs(env)) {
+      const nodePath = path.join(dir, NODE_BINARY);
+      const npxPath = path.join(dir, NPX_BINARY);
+      if (!fs.existsSync(nodePath) || !fs.existsSync(npxPath)) {
+        continue;
+      }
+
+      let realPath: string;
+      try {
+        realPath = fs.realpathSync(nodePath);
+      } catch {
+        continue;
+      }
+      if (seen.has(realPath)) {
+        continue;
+      }
+      seen.add(realPath);
+      found.push({ dir, source });
+    }
+
+    const candidates = await Promise.all(found.map(({ dir, source }) => this.inspect(
+      path.join(dir, NODE_BINARY),
+      path.join(dir, NPX_BINARY),
+      source,
+      env,
+    )));
+
+    // Prefer the user's default node (first on PATH), then the newest
+    const supported = candidates.filter(candidate => candidate.supported);
+    const recommended = supported.find(candidate => candidate.source === 'PATH')
+      ?? [...supported].sort((a, b) => compareVersions(b.version || '0', a.version || '0'))[0];
+    if (recommended) {
+      recommended.recommended = true;
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Check a node/npx pair, e.g. one the user picked by hand.
+   */
+  async inspect(nodePath: string, npxPath: string, source: string, env?: NodeJS.ProcessEnv): Promise<NodeCandidate> {
+    const candidate: NodeCandidate = {
+      nodePath,
+      npxPath,
+      version: null,
+      source,
+      supported: false,
+      recommended: false,
+    };
+
+    if (!fs.existsSync(npxPath)) {
+      candidate.reason = `npx not found at ${npxPath}`;
+      return candidate;
+    }
+
+    try {
+      candidate.version = await this.getVersion(nodePath, env ?? await this.shellEnvironment.get());
+    } catch (error) {
+      candidate.reason = `Could not run node: ${error instanceof Error ? error.message : error}`;
+      return candidate;
+    }
+
+    if (parseMajor(candidate.version) < MIN_NODE_MAJOR) {
+      candidate.reason = `Node.js ${candidate.version} is too old, vibe-kanban needs ${MIN_NODE_MAJOR} or newer`;
+      return candidate;
+    }
+
+    candidate.supported = true;
+    return candidate;
+  }
+
+  private getVersion(nodePath: string, env: NodeJS.ProcessEnv): Promise<string> {
+    return new Promise((resolve, reject) => {
+      execFile(nodePath, ['--version'], { env, timeout: this.VERSION_TIMEOUT }, (error, stdout) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+        const version = stdout.trim();
+        if (!/^v\d+\.\d+\.\d+/.test(version)) {
+          reject(new Error(`Unexpected version output: ${version}`));
+          return;
+        }
+        resolve(version);
+      });
+    });
+  }
+
+  private candidateDirs(env: NodeJS.ProcessEnv): Array<{ dir: string; source: string }> {
+    const home = os.homedir();
+    const dirs: Array<{ dir: string; source: string }> = [];
+    const add = (source: string, paths: string[]) => {
+      for (const dir of paths) {
+        dirs.push({ dir, source });
+      }
+    };
+
+    // Shims need their manager's runtime, so the real installs below are preferred
+    const pathDirs = (env.PATH || '').split(path.delimiter)
+      .filter(dir => dir && !/[\\/]shims[\\/]?$/.test(dir));
+    add('PATH', pathDirs);
+
+    const binDir = isWindows ? [] : ['bin'];
+
+    add('nvm', versionDirs(path.join(env.NVM_DIR || path.join(home, '.nvm'), 'versions', 'node'), 'bin'));
+    add('fnm', [
+      ...versionDirs(path.join(env.FNM_DIR || path.join(home, '.local', 'share', 'fnm'), 'node-versions'), 'installation', ...binDir),
+      ...versionDirs(path.join(home, 'Library', 'Application Support', 'fnm', 'node-versions'), 'installation', 'bin'),
+    ]);
+    add('volta', versionDirs(path.join(env.VOLTA_HOME || path.join(home, '.volta'), 'tools', 'image', 'node'), ...binDir));
+    add('asdf', versionDirs(path.join(env.ASDF_DATA_DIR || path.join(home, '.asdf'), 'installs', 'nodejs'), 'bin'));
+    add('mise', versionDirs(path.join(env.MISE_DATA_DIR || path.join(home, '.local', 'share', 'mise'), 'installs', 'node'), 'bin'));
+    add('proto', versionDirs(path.join(env.PROTO_HOME || path.join(home, '.proto'), 'tools', 'node'), ...binDir));
+
+    if (isWindows) {
+      add('nvm-windows', versionDirs(env.NVM_HOME || path.join(env.APPDATA || '', 'nvm')));
+      add('System', [
+        path.join(env.ProgramFiles || 'C:\\Program Files', 'nodejs'),
+        path.join(env['ProgramFiles(x86)'] || 'C:\\Program Files (x86)', 'nodejs'),
+      ]);
+    } else {
+      add('Homebrew', [
+        '/opt/homebrew/bin',
+        ...versionDirs('/opt/homebrew/opt', 'bin').filter(dir => /[\\/]node(@\d+)?[\\/]bin$/.test(dir)),
+        ...versionDirs('/usr/local/opt', 'bin').filter(dir => /[\\/]node(@\d+)?[\\/]bin$/.test(dir)),
+      ]);
+      add('System', ['/usr/local/bin', '/usr/bin']);
+    }
+
+    return dirs;
+  }
+}
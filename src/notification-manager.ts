@@ -0,0 +1,106 @@
+import { app, BrowserWindow, Notification } from 'electron';
+import { ConfigManager } from './config-manager';
+import type { TaskEvent, TaskEventType } from './task-watcher';
+
+const EVENT_TITLES: Record<TaskEventType, string> = {
+  'task-completed': 'Task completed',
+  'task-failed': 'Task failed',
+  'task-needs-review': 'Task ready for review',
+};
+
+/**
+ * What notifications need from the app: where each profile's board is, and
+ * a way to bring it forward.
+ */
+export interface NotificationActions {
+  getBoardWindow(profileId: string): BrowserWindow | null;
+  getProfileName(profileId: string): string;
+  focusBoard(profileId: string, route?: string): void;
+}
+
+/**
+ * Raises native notifications for task events and keeps an unread count on
+ * the dock/taskbar until the profile's board is looked at.
+ */
+export class NotificationManager {
+  private configManager: ConfigManager;
+  private actions: NotificationActions;
+  private unread = new Map<string, number>();
+  // Keep references so clicks still arrive after garbage collection, with
+  // the profile each one is about
+  private active = new Map<Notification, string>();
+
+  constructor(configManager: ConfigManager, actions: NotificationActions) {
+    this.configManager = configManager;
+    this.actions = actions;
+  }
+
+  notify(profileId: string, event: TaskEvent): void {
+    if (!this.configManager.getNotificationSettings()[event.type]) {
+      return;
+    }
+
+    // The user is looking at this board already
+    const window = this.actions.getBoardWindow(profileId);
+    if (window && window.isFocused() && window.isVisible()) {
+      return;
+    }
+
+    this.unread.set(profileId, (this.unread.get(profileId) ?? 0) + 1);
+    this.updateBadge();
+
+    if (!Notification.isSupported()) {
+      return;
+    }
+
+    const where = [event.projectName, this.actions.getProfileName(profileId)].filter(Boolean).join(' - ');
+    const notification = new Notification({
+      title: EVENT_TITLES[event.type],
+      body: where ? `${event.title}\n${where}` : event.title,
+    });
+    notification.on('click', () => {
+      this.active.delete(notification);
+      this.actions.focusBoard(profileId, event.route);
+    });
+    notification.on('close', () => this.active.delete(notification));
+    this.active.set(notification, profileId);
+    notification.show();
+  }
+
+  /**
+   * The profile's board was looked at; drop its share of the badge.
+   */
+  clear(profileId: string): void {
+    if (this.unread.delete(profileId)) {
+      this.updateBadge();
+    }
+  }
+
+  /**
+   * The profile was deleted; drop its unread count and close its
+   * notifications, which would open a board that's gone.
+   */
+  forget(profileId: string): void {
+    for (const [notification, owner] of this.active) {
+      if (owner === profileId) {
+        this.active.delete(notification);
+        notification.close();
+      }
+    }
+    this.clear(profileId);
+  }
+
+  private updateBadge(): void {
+    const total = [...this.unread.values()].reduce((sum, count) => sum + count, 0);
+
+    // Supported on macOS and Unity-based Linux desktops
+    app.setBadgeCount(total);
+
+    // Windows has no badge count; flash the taskbar buttons instead
+    if (process.platform === 'win32') {
+      for (const profileId of this.unread.keys()) {
+        this.actions.getBoardWindow(profileId)?.flashFrame(true);
+      }
+    }
+  }
+}
@@ -0,0 +1,447 @@
+import { spawn } from 'child_process';
+import { createHash } from 'crypto';
+import path from 'path';
+import os from 'os';
+import fs from 'fs';
+import { ProcessTree } from './process-tree';
+
+export const PACKAGE_NAME = 'vibe-kanban';
+
+export type VersionSpec =
+  | { kind: 'latest' }
+  | { kind: 'version'; version: string }
+  | { kind: 'local'; path: string };
+
+export interface InstalledPackage {
+  version: string;
+  dir: string;
+  binPath: string;
+}
+
+// What runNpm needs to start npm
+interface NpmRunner {
+  nodePath: string;
+  npmPath: string;
+  env: NodeJS.ProcessEnv;
+}
+
+export interface InstallOptions {
+  // Aborting kills the running npm process
+  signal?: AbortSignal;
+  // npm's output as it arrives
+  onOutput?: (output: string) => void;
+}
+
+const SEMVER_REGEX = /^\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?$/;
+
+/**
+ * Parse a user-supplied version selector. Accepts "latest" (or empty),
+ * an exact semver like "0.0.55", or a path to a local tarball/directory.
+ * Returns null if the value is none of these.
+ */
+export function parseVersionSpec(value: string | undefined): VersionSpec | null {
+  const spec = (value || '').trim();
+
+  if (!spec || spec === 'latest') {
+    return { kind: 'latest' };
+  }
+
+  if (SEMVER_REGEX.test(spec)) {
+    return { kind: 'version', version: spec };
+  }
+
+  const isPath = spec.startsWith('/')
+    || spec.startsWith('~')
+    || spec.startsWith('.')
+    || spec.startsWith('file:')
+    || /^[A-Za-z]:[\\/]/.test(spec)
+    || /\.(tgz|tar\.gz)$/.test(spec);
+
+  if (isPath) {
+    let localPath = spec.replace(/^file:/, '');
+    if (localPath.startsWith('~')) {
+      localPath = path.join(os.homedir(), localPath.slice(1));
+    }
+    return { kind: 'local', path: path.resolve(localPath) };
+  }
+
+  return null;
+}
+
+/**
+ * How to run npm or npx (`toolPath`) without a shell. On Windows both are
+ * .cmd scripts, which spawn() can only run through cmd.exe, where paths with
+ * spaces (C:\Program Files\nodejs) get split. The npm-cli.js/npx-cli.js
+ * they wrap is run with node instead, or failing that every argument is quoted.
+ */
+export function npmCommand(
+  toolPath: string,
+  nodePath: string,
+  args: string[],
+): { command: string; args: string[]; shell: boolean } {
+  if (process.platform !== 'win32') {
+    return { command: toolPath, args, shell: false };
+  }
+
+  const tool = path.basename(toolPath).replace(/\.cmd$/i, '').toLowerCase();
+  const script = path.join(path.dirname(toolPath), 'node_modules', 'npm', 'bin', `${tool}-cli.js`);
+  if (fs.existsSync(script)) {
+    return { command: nodePath, args: [script, ...args], shell: false };
+  }
+
+  const quote = (value: string) => `"${value.replace(/"/g, '""')}"`;
+  return { command: quote(toolPath), args: args.map(quote), shell: true };
+}
+
+/**
+ * Order two versions by semver precedence: a prerelease (1.2.0-beta.1) sorts
+ * below its release, and build metadata (+sha) is ignored.
+ */
+export function compareVersions(a: string, b: string): number {
+  const split = (version: string) => {
+    const [core, ...prerelease] = version.replace(/^v/, '').split('+')[0].split('-');
+    return {
+      parts: core.split('.').map(n => parseInt(n, 10) || 0),
+      prerelease: prerelease.length > 0 ? prerelease.join('-').split('.') : [],
+    };
+  };
+  const versionA = split(a);
+  const versionB = split(b);
+
+  for (let i = 0; i < Math.max(versionA.parts.length, versionB.parts.length); i++) {
+    const diff = (versionA.parts[i] || 0) - (versionB.parts[i] || 0);
+    if (diff !== 0) return diff;
+  }
+
+  // A release outranks any of its prereleases
+  if (versionA.prerelease.length === 0 || versionB.prerelease.length === 0) {
+    return versionB.prerelease.length - versionA.prerelease.length;
+  }
+  for (let i = 0; i < Math.max(versionA.prerelease.length, versionB.prerelease.length); i++) {
+    const idA = versionA.prerelease[i];
+    const idB = versionB.prerelease[i];
+    if (idA === undefined || idB === undefined) {
+      // beta < beta.1
+      return idA === undefined ? -1 : 1;
+    }
+    const numericA = /^\d+$/.test(idA);
+    const numericB = /^\d+$/.test(idB);
+    if (numericA && numericB) {
+      const diff = parseInt(idA, 10) - parseInt(idB, 10);
+      if (diff !== 0) return diff;
+    } else if (numericA !== numericB) {
+      // Numeric identifiers sort below alphanumeric ones
+      return numericA ? -1 : 1;
+    } else if (idA !== idB) {
+      return idA < idB ? -1 : 1;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Managed install cache for vibe-kanban. Each version is installed once into
+ * its own prefix under the cache directory, so launches can run the package
+ * directly with node instead of going through `npx` (and the network) every time.
+ */
+export class PackageCache {
+  private cacheDir: string;
+  // Installs in progress by target directory, so two profiles wanting the
+  // same version share one npm run
+  private installs = new Map<string, { done: Promise<InstalledPackage>; signal?: AbortSignal }>();
+  // Last "latest" lookup; a failed one is remembered as null
+  private latestLookup: { version: string | null; checkedAt: number } | null = null;
+  private readonly INSTALL_TIMEOUT = 5 * 60 * 1000; // 5 minutes
+  private readonly REGISTRY_TIMEOUT = 15000; // 15 seconds
+  private readonly LATEST_TTL = 10 * 60 * 1000; // 10 minutes
+  private readonly LATEST_FAILURE_TTL = 60 * 1000; // 1 minute
+  private readonly KILL_GRACE = 2000;
+
+  constructor(cacheDir: string) {
+    this.cacheDir = cacheDir;
+  }
+
+  getCacheDir(): string {
+    return this.cacheDir;
+  }
+
+  /**
+   * List the registry versions that are installed in the cache, newest first.
+   */
+  listCachedVersions(): string[] {
+    if (!fs.existsSync(this.cacheDir)) {
+      return [];
+    }
+
+    return fs.readdirSync(this.cacheDir)
+      .filter(dir => SEMVER_REGEX.test(dir) && this.readInstalled(path.join(this.cacheDir, dir)) !== null)
+      .sort((a, b) => compareVersions(b, a));
+  }
+
+  /**
+   * Make sure the requested version is installed and return where it lives.
+   * Pinned versions and local sources never hit the registry once cached.
+   * "latest" asks the registry which version that is (remembered for a few
+   * minutes), and falls back to the newest cached version when the registry
+   * can't be reached.
+   */
+  async resolve(
+    spec: VersionSpec,
+    nodePath: string,
+    npmPath: string,
+    env: NodeJS.ProcessEnv,
+    options: InstallOptions = {},
+  ): Promise<InstalledPackage> {
+    const npm = { nodePath, npmPath, env };
+
+    if (spec.kind === 'version') {
+      return this.readInstalled(this.versionDir(spec.version))
+        ?? this.install(`${PACKAGE_NAME}@${spec.version}`, this.versionDir(spec.version), npm, options);
+    }
+
+    if (spec.kind === 'local') {
+      const targetDir = this.localDir(spec.path);
+      return this.readInstalled(targetDir) ?? this.install(spec.path, targetDir, npm, options);
+    }
+
+    let latest: string;
+    try {
+      latest = await this.lookUpLatest(npm, options);
+    } catch (error) {
+      const cached = this.listCachedVersions();
+      if (cached.length === 0) {
+        throw new Error(
+          `Could not reach the npm registry (${env.npm_config_registry || 'npm default'}) and no cached ${PACKAGE_NAME} version is available.\n\n` +
+          `${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+      console.log(`Registry unreachable, using cached ${PACKAGE_NAME}@${cached[0]}`);
+      return this.readInstalled(this.versionDir(cached[0])) as InstalledPackage;
+    }
+
+    return this.readInstalled(this.versionDir(latest))
+      ?? this.install(`${PACKAGE_NAME}@${latest}`, this.versionDir(latest), npm, options);
+  }
+
+  /**
+   * Ask the registry for the latest version, reusing a recent answer. A
+   * failed lookup is also remembered briefly, so launching while offline
+   * doesn't wait on the registry timeout every time.
+   */
+  private async lookUpLatest(npm: NpmRunner, options: InstallOptions): Promise<string> {
+    const lookup = this.latestLookup;
+    if (lookup) {
+      const age = Date.now() - lookup.checkedAt;
+      if (lookup.version && age < this.LATEST_TTL) {
+        return lookup.version;
+      }
+      if (!lookup.version && age < this.LATEST_FAILURE_TTL) {
+        throw new Error('The registry could not be reached a moment ago');
+      }
+    }
+
+    try {
+      const version = (await this.runNpm(npm, ['view', PACKAGE_NAME, 'version'], this.REGISTRY_TIMEOUT, options)).trim();
+      this.latestLookup = { version, checkedAt: Date.now() };
+      return version;
+    } catch (error) {
+      // A cancelled lookup says nothing about the registry
+      if (!options.signal?.aborted) {
+        this.latestLookup = { version: null, checkedAt: Date.now() };
+      }
+      throw error;
+    }
+  }
+
+  private versionDir(version: string): string {
+    return path.join(this.cacheDir, version);
+  }
+
+  /**
+   * Local sources are keyed by path and modification time, so rebuilding a
+   * tarball or directory produces a fresh install.
+   */
+  private localDir(sourcePath: string): string {
+    if (!fs.existsSync(sourcePath)) {
+      throw new Error(`Local ${PACKAGE_NAME} source not found: ${sourcePath}`);
+    }
+    const { mtimeMs } = fs.statSync(sourcePath);
+    const hash = createHash('sha1').update(`${sourcePath}:${mtimeMs}`).digest('hex').slice(0, 12);
+    return path.join(this.cacheDir, `local-${hash}`);
+  }
+
+  /**
+   * Read an installed prefix and locate the package's bin script.
+   * Returns null if the prefix is missing or incomplete.
+   */
+  private readInstalled(prefixDir: string): InstalledPackage | null {
+    try {
+      const prefixManifest = JSON.parse(fs.readFileSync(path.join(prefixDir, 'package.json'), 'utf-8'));
+      const name = Object.keys(prefixManifest.dependencies || {})[0];
+      if (!name) {
+        return null;
+      }
+
+      const packageDir = path.join(prefixDir, 'node_modules', name);
+      const manifest = JSON.parse(fs.readFileSync(path.join(packageDir, 'package.json'), 'utf-8'));
+      const bin: string | undefined = typeof manifest.bin === 'string'
+        ? manifest.bin
+        : manifest.bin?.[PACKAGE_NAME] ?? Object.values<string>(manifest.bin || {})[0];
+
+      if (!bin) {
+        return null;
+      }
+
+      const binPath = path.join(packageDir, bin);
+      if (!fs.existsSync(binPath)) {
+        return null;
+      }
+
+      return { version: manifest.version, dir: prefixDir, binPath };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Install a source into the target directory, joining an install of the
+   * same target that's already running.
+   */
+  private install(source: string, targetDir: string, npm: NpmRunner, options: InstallOptions): Promise<InstalledPackage> {
+    const running = this.installs.get(targetDir);
+    if (running) {
+      console.log(`Waiting for the running install into ${targetDir}`);
+      // If whoever started it cancels, start over rather than fail too
+      return running.done.catch((error) => {
+        if (running.signal?.aborted && !options.signal?.aborted) {
+          return this.install(source, targetDir, npm, options);
+        }
+        throw error;
+      });
+    }
+
+    const done = this.installOnce(source, targetDir, npm, options)
+      .finally(() => this.installs.delete(targetDir));
+    this.installs.set(targetDir, { done, signal: options.signal });
+    return done;
+  }
+
+  /**
+   * Install into a staging prefix first and only move it into place once npm
+   * succeeds, so an interrupted download never leaves a half-installed version.
+   */
+  private async installOnce(
+    source: string,
+    targetDir: string,
+    npm: NpmRunner,
+    options: InstallOptions,
+  ): Promise<InstalledPackage> {
+    const stagingDir = path.join(this.cacheDir, `.staging-${process.pid}-${Date.now()}`);
+    fs.mkdirSync(stagingDir, { recursive: true });
+    fs.writeFileSync(path.join(stagingDir, 'package.json'), JSON.stringify({ private: true }, null, 2));
+
+    console.log(`Installing ${source} into ${targetDir}`);
+
+    try {
+      await this.runNpm(npm, [
+        'install',
+        '--prefix', stagingDir,
+        '--no-audit',
+        '--no-fund',
+        '--no-package-lock',
+        source,
+      ], this.INSTALL_TIMEOUT, options);
+
+      if (!this.readInstalled(stagingDir)) {
+        throw new Error(`Installed package from ${source} has no runnable bin script`);
+      }
+
+      // Only replace an incomplete target; a complete one may already be running
+      if (!this.readInstalled(targetDir)) {
+        fs.rmSync(targetDir, { recursive: true, force: true });
+        try {
+          fs.renameSync(stagingDir, targetDir);
+        } catch (error) {
+          // Another process finished the same install first
+          if (!this.readInstalled(targetDir)) {
+            throw error;
+          }
+        }
+      }
+    } finally {
+      fs.rmSync(stagingDir, { recursive: true, force: true });
+    }
+
+    return this.readInstalled(targetDir) as InstalledPackage;
+  }
+
+  private runNpm(
+    npm: NpmRunner,
+    args: string[],
+    timeoutMs: number,
+    options: InstallOptions = {},
+  ): Promise<string> {
+    return new Promise((resolve, reject) => {
+      if (options.signal?.aborted) {
+        reject(new Error(`npm ${args[0]} was cancelled`));
+        return;
+      }
+
+      const command = npmCommand(npm.npmPath, npm.nodePath, args);
+      const child = spawn(command.command, command.args, {
+        stdio: ['ignore', 'pipe', 'pipe'],
+        env: npm.env,
+        shell: command.shell,
+      });
+
+      // npm runs install scripts (and on Windows may sit behind cmd.exe), so
+      // stopping it means stopping everything it started
+      const stop = () => {
+        if (child.pid) {
+          new ProcessTree(child.pid).terminate(this.KILL_GRACE)
+            .catch(error => console.warn('Failed to stop npm:', error));
+        }
+      };
+
+      let stdout = '';
+      let stderr = '';
+      const timeout = setTimeout(() => {
+        stop();
+        reject(new Error(`npm ${args[0]} timed out after ${Math.round(timeoutMs / 1000)}s`));
+      }, timeoutMs);
+
+      const onAbort = () => {
+        clearTimeout(timeout);
+        stop();
+        reject(new Error(`npm ${args[0]} was cancelled`));
+      };
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+
+      child.stdout?.on('data', (data: Buffer) => {
+        stdout += data.toString();
+        options.onOutput?.(data.toString());
+      });
+
+      child.stderr?.on('data', (data: Buffer) => {
+        stderr += data.toString();
+        options.onOutput?.(data.toString());
+      });
+
+      child.on('error', (err) => {
+        clearTimeout(timeout);
+        options.signal?.removeEventListener('abort', onAbort);
+        reject(new Error(`Failed to run npm: ${err.message}`));
+      });
+
+      child.on('close', (code) => {
+        clearTimeout(timeout);
+        options.signal?.removeEventListener('abort', onAbort);
+        if (code === 0) {
+          resolve(stdout);
+        } else {
+          reject(new Error(`npm ${args[0]} exited with code ${code}\n\n${stderr.slice(0, 500)}`));
+        }
+      });
+    });
+  }
+}
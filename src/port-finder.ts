@@ -0,0 +1,108 @@
+import { execFile } from 'child_process';
+import net from 'net';
+
+export interface PortRange {
+  start: number;
+  end: number;
+}
+
+export interface PortOwner {
+  pid: number;
+  // Full command line, when it could be read
+  command: string | null;
+}
+
+const LOOKUP_TIMEOUT = 5000; // 5 seconds
+
+function run(command: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(command, args, { timeout: LOOKUP_TIMEOUT, windowsHide: true }, (error, stdout) => {
+      if (error) {
+        reject(error);
+        return;
+      }
+      resolve(stdout);
+    });
+  });
+}
+
+function canListen(port: number, host?: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const server = net.createServer();
+    server.once('error', () => resolve(false));
+    server.listen({ port, host, exclusive: true }, () => {
+      server.close(() => resolve(true));
+    });
+  });
+}
+
+/**
+ * Whether nothing is listening on the port, on loopback or on all interfaces.
+ */
+export async function isPortFree(port: number): Promise<boolean> {
+  return await canListen(port, '127.0.0.1') && await canListen(port);
+}
+
+/**
+ * The first free port in the range, skipping the given ports.
+ */
+export async function findFreePort(range: PortRange, skip: number[] = []): Promise<number | null> {
+  for (let port = range.start; port <= range.end; port++) {
+    if (!skip.includes(port) && await isPortFree(port)) {
+      return port;
+    }
+  }
+  return null;
+}
+
+/**
+ * The process listening on a TCP port. Uses lsof on macOS/Linux and netstat on
+ * Windows; returns null if neither finds it (or isn't installed).
+ */
+export async function findPortOwner(port: number): Promise<PortOwner | null> {
+  try {
+    if (process.platform === 'win32') {
+      const output = await run('netstat', ['-ano', '-p', 'TCP']);
+      const line = output.split('\n').find((entry) => {
+        const columns = entry.trim().split(/\s+/);
+        return columns[3] === 'LISTENING' && columns[1]?.endsWith(`:${port}`);
+      });
+      const pid = line ? parseInt(line.trim().split(/\s+/)[4], 10) : NaN;
+      if (!pid) {
+        return null;
+      }
+      const command = await run('powershell.exe', [
+        '-NoProfile',
+        '-Command',
+        `(Get-CimInstance Win32_Process -Filter "ProcessId=${pid}").CommandLine`,
+      ]).catch(() => '');
+      return { pid, command: command.trim() || null };
+    }
+
+    const output = await run('lsof', ['-nP', `-iTCP:${port}`, '-sTCP:LISTEN', '-t']);
+    const pid = parseInt(output.trim().split('\n')[0], 10);
+    if (!pid) {
+      return null;
+    }
+    const command = await run('ps', ['-o', 'command=', '-p', String(pid)]).catch(() => '');
+    return { pid, command: command.trim() || null };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse "9000-9099" (or a single port) into a range. Returns null if invalid.
+ */
+export function parsePortRange(value: string): PortRange | null {
+  const match = value.trim().match(/^(\d+)(?:\s*-\s*(\d+))?$/);
+  if (!match) {
+    return null;
+  }
+  const start = parseInt(match[1], 10);
+  const end = match[2] ? parseInt(match[2], 10) : start;
+  if (start < 1024 || end > 65535 || start > end) {
+    return null;
+  }
+  return { start, end };
+}
@@ -1,11 +1,74 @@
-import { contextBridge, ipcRenderer } from 'electron';
+import { contextBridge, ipcRenderer, IpcRendererEvent } from 'electron';
+import type { BoardPermission, EnvVar, NetworkSettings, Profile } from './config-manager';
+import type { TaskEventType } from './task-watcher';
+import type { StartupProgress } from './server-manager';
+import type { ServerErrorKind } from './server-error';
+
+// Set by WindowManager to the launcher's URL
+const LAUNCHER_URL_ARG = '--vk-launcher-url=';
+
+function isLauncherPage(): boolean {
+  const value = process.argv.find(arg => arg.startsWith(LAUNCHER_URL_ARG))?.slice(LAUNCHER_URL_ARG.length);
+  if (!value) {
+    return false;
+  }
+  const launcher = new URL(value);
+  return location.protocol === launcher.protocol && location.host === launcher.host && location.pathname === launcher.pathname;
+}
 
 // Expose protected methods that allow the renderer process to use
-// ipcRenderer without exposing the entire object
-contextBridge.exposeInMainWorld('electronAPI', {
-  launchServer: (port?: number) => ipcRenderer.invoke('launch-server', port),
+// ipcRenderer without exposing the entire object. Only the local launcher
+// gets them; the board is served by vibe-kanban and may be remote
+const electronAPI = {
+  launchServer: (profileId: string) => ipcRenderer.invoke('launch-server', profileId),
+  focusProfile: (profileId: string) => ipcRenderer.invoke('focus-profile', profileId),
   getPaths: () => ipcRenderer.invoke('get-paths'),
   setPaths: (nodePath: string, npxPath: string) => ipcRenderer.invoke('set-paths', nodePath, npxPath),
+  getAutoLaunch: () => ipcRenderer.invoke('get-auto-launch'),
+  setAutoLaunch: (autoLaunch: boolean) => ipcRenderer.invoke('set-auto-launch', autoLaunch),
+  getOpenAtLogin: () => ipcRenderer.invoke('get-open-at-login'),
+  setOpenAtLogin: (openAtLogin: boolean) => ipcRenderer.invoke('set-open-at-login', openAtLogin),
   browseForNode: () => ipcRenderer.invoke('browse-for-node'),
   browseForNpx: () => ipcRenderer.invoke('browse-for-npx'),
-});
+  discoverNode: () => ipcRenderer.invoke('discover-node'),
+  getProfiles: () => ipcRenderer.invoke('get-profiles'),
+  createProfile: (name: string) => ipcRenderer.invoke('create-profile', name),
+  updateProfile: (profile: Profile) => ipcRenderer.invoke('update-profile', profile),
+  deleteProfile: (profileId: string) => ipcRenderer.invoke('delete-profile', profileId),
+  getProfileEnv: (profileId: string) => ipcRenderer.invoke('get-profile-env', profileId),
+  setProfileEnv: (profileId: string, vars: EnvVar[]) => ipcRenderer.invoke('set-profile-env', profileId, vars),
+  previewProfileEnv: (profileId: string) => ipcRenderer.invoke('preview-profile-env', profileId),
+  browseForCwd: (current?: string) => ipcRenderer.invoke('browse-for-cwd', current),
+  browseForCaFile: () => ipcRenderer.invoke('browse-for-ca-file'),
+  checkCwd: (cwd?: string) => ipcRenderer.invoke('check-cwd', cwd),
+  checkRemoteUrl: (url: string) => ipcRenderer.invoke('check-remote-url', url),
+  cancelLaunch: () => ipcRenderer.invoke('cancel-launch'),
+  onStartupProgress: (callback: (progress: StartupProgress) => void) => {
+    ipcRenderer.on('startup-progress', (_event: IpcRendererEvent, progress: StartupProgress) => callback(progress));
+  },
+  copyDiagnostics: (profileId: string, kind: ServerErrorKind, message: string) =>
+    ipcRenderer.invoke('copy-diagnostics', profileId, kind, message),
+  saveDiagnosticsBundle: () => ipcRenderer.invoke('save-diagnostics-bundle'),
+  exportSettings: () => ipcRenderer.invoke('export-settings'),
+  getNetworkSettings: () => ipcRenderer.invoke('get-network-settings'),
+  setNetworkSettings: (settings: NetworkSettings) => ipcRenderer.invoke('set-network-settings', settings),
+  testConnectivity: (settings: NetworkSettings) => ipcRenderer.invoke('test-connectivity', settings),
+  importSettings: () => ipcRenderer.invoke('import-settings'),
+  openLogs: (profileId: string) => ipcRenderer.invoke('open-logs', profileId),
+  getMinimizeToTray: () => ipcRenderer.invoke('get-minimize-to-tray'),
+  setMinimizeToTray: (minimizeToTray: boolean) => ipcRenderer.invoke('set-minimize-to-tray', minimizeToTray),
+  getNotificationSettings: () => ipcRenderer.invoke('get-notification-settings'),
+  setNotificationEnabled: (type: TaskEventType, enabled: boolean) => ipcRenderer.invoke('set-notification-enabled', type, enabled),
+  getBoardPermissions: () => ipcRenderer.invoke('get-board-permissions'),
+  setBoardPermission: (permission: BoardPermission, allowed: boolean) =>
+    ipcRenderer.invoke('set-board-permission', permission, allowed),
+};
+
+if (isLauncherPage()) {
+  contextBridge.exposeInMainWorld('electronAPI', electronAPI);
+} else {
+  // For the vibe-kanban board page: raise a desktop notification for a task
+  contextBridge.exposeInMainWorld('vkWrapper', {
+    notify: (type: TaskEventType, title: string) => ipcRenderer.invoke('page-notify', type, title),
+  });
+}
@@ -0,0 +1,300 @@
+import { execFile } from 'child_process';
+
+export interface TrackedProcess {
+  pid: number;
+  ppid: number;
+  pgid: number;
+  // When it started, so a reused pid isn't mistaken for the process we saw
+  started: string;
+  command: string;
+}
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means it exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+const COMMAND_TIMEOUT = 10000; // 10 seconds
+
+// ps fields for TrackedProcess, with lstart in the C locale's fixed format
+// ("Mon Oct 19 09:05:01 2026")
+const PS_FIELDS = 'pid=,ppid=,pgid=,lstart=,command=';
+const PS_LINE = /^(\d+)\s+(\d+)\s+(\d+)\s+(\w{3}\s+\w{3}\s+\d+\s+[\d:]+\s+\d+)\s+(.*)$/;
+// Windows: pid, parent pid, 0 for the group, creation time as a FILETIME, name
+const WIN32_LINE = /^(\d+)\s+(\d+)\s+(\d+)\s+(\d+)\s+(.*)$/;
+
+function parseProcess(line: string, pattern: RegExp): TrackedProcess | null {
+  const match = line.trim().match(pattern);
+  return match
+    ? {
+      pid: parseInt(match[1], 10),
+      ppid: parseInt(match[2], 10),
+      pgid: parseInt(match[3], 10),
+      started: match[4].replace(/\s+/g, ' '),
+      command: match[5],
+    }
+    : null;
+}
+
+function run(command: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(command, args, {
+      encoding: 'utf-8',
+      env: { ...process.env, LC_ALL: 'C' },
+      timeout: COMMAND_TIMEOUT,
+      maxBuffer: 16 * 1024 * 1024,
+      windowsHide: true,
+    }, (error, stdout) => {
+      if (error) {
+        reject(error);
+        return;
+      }
+      resolve(stdout);
+    });
+  });
+}
+
+/**
+ * The process group leader of a process, with its full command line. Returns
+ * null on Windows, which has no process groups, or if it can't be read.
+ */
+export async function findGroupLeader(pid: number): Promise<TrackedProcess | null> {
+  if (process.platform === 'win32') {
+    return null;
+  }
+  try {
+    const pgid = parseInt((await run('ps', ['-o', 'pgid=', '-p', String(pid)])).trim(), 10);
+    if (!pgid) {
+      return null;
+    }
+    return parseProcess(await run('ps', ['-o', PS_FIELDS, '-p', String(pgid)]), PS_LINE);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Tracks every process descended from one server process, so shutdown only
+ * ever signals processes this wrapper started.
+ *
+ * On macOS/Linux the server is spawned as its own process group leader, and
+ * the tree is re-scanned periodically. Processes stay tracked after their
+ * parent dies and they are reparented, so grandchildren (agent processes)
+ * are still found at shutdown. Windows has no process groups, so there only
+ * the scans find descendants, including ones whose parent already exited and
+ * that taskkill /T can no longer reach from the root.
+ */
+export class ProcessTree {
+  private rootPid: number;
+  private rootStarted: string | null = null;
+  private tracked = new Map<number, TrackedProcess>();
+  private timer: NodeJS.Timeout | null = null;
+  private refreshing: Promise<void> | null = null;
+  private readonly TRACK_INTERVAL = 5000; // 5 seconds
+  private readonly POLL_INTERVAL = 100;
+
+  constructor(rootPid: number) {
+    this.rootPid = rootPid;
+  }
+
+  getTracked(): TrackedProcess[] {
+    return [...this.tracked.values()];
+  }
+
+  startTracking(): void {
+    if (this.timer) {
+      return;
+    }
+    this.refresh();
+    this.timer = setInterval(() => this.refresh(), this.TRACK_INTERVAL);
+  }
+
+  stopTracking(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Re-scan the process table and add anything that belongs to the tree:
+   * descendants of the root, and members of its process group. Joins a scan
+   * that's already running.
+   */
+  refresh(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.scan().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async scan(): Promise<void> {
+    const table = await this.snapshot();
+    if (!table) {
+      return;
+    }
+
+    // Drop tracked processes that exited, or whose pid now belongs to something else
+    for (const [pid, tracked] of this.tracked) {
+      const current = table.get(pid);
+      if (!current || current.started !== tracked.started) {
+        this.tracked.delete(pid);
+      }
+    }
+
+    const childrenOf = new Map<number, TrackedProcess[]>();
+    for (const entry of table.values()) {
+      const siblings = childrenOf.get(entry.ppid) || [];
+      siblings.push(entry);
+      childrenOf.set(entry.ppid, siblings);
+    }
+
+    // Once the root has exited its pid may be reused; only follow it while it's still ours
+    const root = table.get(this.rootPid);
+    if (root && this.rootStarted === null) {
+      this.rootStarted = root.started;
+    }
+    const rootIsOurs = root !== undefined && root.started === this.rootStarted;
+
+    // Walk down from the root and from everything already tracked
+    const queue = [...(rootIsOurs ? [this.rootPid] : []), ...this.tracked.keys()];
+    for (const entry of table.values()) {
+      if (entry.pgid !== 0 && entry.pgid === this.rootPid) {
+        queue.push(entry.pid);
+      }
+    }
+
+    const seen = new Set<number>();
+    while (queue.length > 0) {
+      const pid = queue.shift() as number;
+      if (seen.has(pid)) {
+        continue;
+      }
+      seen.add(pid);
+
+      const entry = table.get(pid);
+      if (entry) {
+        this.tracked.set(pid, entry);
+      }
+      for (const child of childrenOf.get(pid) || []) {
+        queue.push(child.pid);
+      }
+    }
+  }
+
+  /**
+   * SIGTERM the whole tree, wait for it to exit, then SIGKILL what's left.
+   * Returns the processes that survived even that (strays worth reporting).
+   */
+  async terminate(graceMs: number): Promise<TrackedProcess[]> {
+    this.stopTracking();
+    // A scan started before now may miss what was spawned since
+    await this.refreshing;
+    await this.refresh();
+
+    if (process.platform === 'win32') {
+      // Console processes like node ignore a graceful taskkill, so there is
+      // no grace period worth waiting out
+      await this.taskkill(this.rootPid);
+      for (const pid of this.pids().filter(isAlive)) {
+        await this.taskkill(pid);
+      }
+      await this.waitForExit([this.rootPid, ...this.pids()], 1000);
+    } else {
+      this.signalAll('SIGTERM');
+      await this.waitForExit(this.pids(), graceMs);
+
+      const remaining = this.pids().filter(isAlive);
+      if (remaining.length > 0) {
+        console.log(`Force killing ${remaining.length} server process(es)`);
+        await this.refresh();
+        this.signalAll('SIGKILL');
+        await this.waitForExit(this.pids(), 1000);
+      }
+    }
+
+    await this.refresh();
+    return this.getTracked().filter(entry => isAlive(entry.pid));
+  }
+
+  private pids(): number[] {
+    return [...this.tracked.keys()];
+  }
+
+  private signalAll(signal: NodeJS.Signals): void {
+    // The group covers children spawned between scans. A pgid can't be reused
+    // while any member is alive, so it's only signalled while we track one
+    if (this.getTracked().some(entry => entry.pgid === this.rootPid)) {
+      try {
+        process.kill(-this.rootPid, signal);
+      } catch {
+        // Group is already gone
+      }
+    }
+
+    for (const pid of this.tracked.keys()) {
+      try {
+        process.kill(pid, signal);
+      } catch {
+        // Already exited
+      }
+    }
+  }
+
+  private async waitForExit(pids: number[], timeoutMs: number): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline && pids.some(isAlive)) {
+      await sleep(this.POLL_INTERVAL);
+    }
+  }
+
+  private async taskkill(pid: number): Promise<void> {
+    try {
+      await run('taskkill', ['/pid', String(pid), '/T', '/F']);
+    } catch {
+      // Process may already be dead
+    }
+  }
+
+  /**
+   * The process table as pid, parent pid, process group, start time and
+   * command line (just the name on Windows, which also reports no process
+   * groups, so every pgid there is 0).
+   */
+  private async snapshot(): Promise<Map<number, TrackedProcess> | null> {
+    try {
+      const output = process.platform === 'win32'
+        ? await run('powershell.exe', [
+          '-NoProfile',
+          '-NonInteractive',
+          '-Command',
+          'Get-CimInstance Win32_Process | ForEach-Object { '
+            + '"$($_.ProcessId) $($_.ParentProcessId) 0 $(if ($_.CreationDate) { $_.CreationDate.ToFileTimeUtc() } else { 0 }) $($_.Name)" }',
+        ])
+        : await run('ps', ['-A', '-o', PS_FIELDS]);
+      const pattern = process.platform === 'win32' ? WIN32_LINE : PS_LINE;
+      const table = new Map<number, TrackedProcess>();
+      for (const line of output.split('\n')) {
+        const entry = parseProcess(line, pattern);
+        if (entry) {
+          table.set(entry.pid, entry);
+        }
+      }
+      return table;
+    } catch (error) {
+      console.warn('Failed to read process table:', error);
+      return null;
+    }
+  }
+}
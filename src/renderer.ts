@@ -1,15 +1,138 @@
 // avoid linting errors
 export { };
 
+interface Profile {
+  id: string;
+  name: string;
+  mode?: 'local' | 'remote';
+  remoteUrl?: string;
+  port?: number;
+  lastPort?: number;
+  reuseLastPort?: boolean;
+  portRange?: string;
+  cwd?: string;
+  vkVersion?: string;
+  restartPolicy?: string;
+  healthPath?: string;
+}
+
+interface EnvVar {
+  key: string;
+  value: string;
+  secret: boolean;
+}
+
+interface EnvPreviewEntry {
+  key: string;
+  value: string;
+  source: 'shell' | 'network' | 'profile' | 'secret' | 'wrapper';
+  masked: boolean;
+}
+
+type StartupPhase = 'shell-env' | 'node' | 'install' | 'spawn' | 'url' | 'health';
+
+interface StartupProgress {
+  phase: StartupPhase;
+  steps: Array<{ phase: StartupPhase; startedMs: number }>;
+  elapsedMs: number;
+  lastLine: string | null;
+}
+
+type ServerErrorKind =
+  | 'paths-not-configured'
+  | 'node-too-old'
+  | 'registry-unreachable'
+  | 'port-busy'
+  | 'timeout'
+  | 'permission-denied'
+  | 'crashed'
+  | 'unknown';
+
+type ErrorAction =
+  | 'retry'
+  | 'change-port'
+  | 'reconfigure-paths'
+  | 'network-settings'
+  | 'open-logs'
+  | 'copy-diagnostics'
+  | 'save-diagnostics';
+
+interface NetworkSettings {
+  registry?: string;
+  httpProxy?: string;
+  httpsProxy?: string;
+  noProxy?: string;
+  caFile?: string;
+  strictSsl?: boolean;
+}
+
+interface ConnectivityResult {
+  ok: boolean;
+  registry: string;
+  steps: Array<{ label: string; ok: boolean; detail?: string; durationMs: number }>;
+}
+
+interface NodeCandidate {
+  nodePath: string;
+  npxPath: string;
+  version: string | null;
+  source: string;
+  supported: boolean;
+  reason?: string;
+  recommended: boolean;
+}
+
+interface ProfilesState {
+  profiles: Profile[];
+  activeProfileId: string;
+  runningProfileIds: string[];
+  cachedVersions: string[];
+  recentDirectories: string[];
+  savedConnections: string[];
+}
+
 // Type declaration for the exposed API
 declare global {
   interface Window {
     electronAPI: {
-      launchServer: (port?: number) => Promise<void>;
+      launchServer: (profileId: string) => Promise<void>;
+      focusProfile: (profileId: string) => Promise<void>;
       getPaths: () => Promise<{ nodePath: string | null; npxPath: string | null }>;
       setPaths: (nodePath: string, npxPath: string) => Promise<void>;
       browseForNode: () => Promise<string | null>;
       browseForNpx: () => Promise<string | null>;
+      discoverNode: () => Promise<NodeCandidate[]>;
+      getProfiles: () => Promise<ProfilesState>;
+      createProfile: (name: string) => Promise<Profile>;
+      updateProfile: (profile: Profile) => Promise<void>;
+      deleteProfile: (profileId: string) => Promise<void>;
+      getProfileEnv: (profileId: string) => Promise<EnvVar[]>;
+      setProfileEnv: (profileId: string, vars: EnvVar[]) => Promise<void>;
+      previewProfileEnv: (profileId: string) => Promise<EnvPreviewEntry[]>;
+      browseForCwd: (current?: string) => Promise<string | null>;
+      browseForCaFile: () => Promise<string | null>;
+      checkCwd: (cwd?: string) => Promise<{ path: string; error: string | null }>;
+      checkRemoteUrl: (url: string) => Promise<{ ok: boolean; latencyMs?: number; error?: string }>;
+      cancelLaunch: () => Promise<void>;
+      onStartupProgress: (callback: (progress: StartupProgress) => void) => void;
+      copyDiagnostics: (profileId: string, kind: ServerErrorKind, message: string) => Promise<void>;
+      saveDiagnosticsBundle: () => Promise<string | null>;
+      exportSettings: () => Promise<string | null>;
+      getNetworkSettings: () => Promise<NetworkSettings>;
+      setNetworkSettings: (settings: NetworkSettings) => Promise<void>;
+      testConnectivity: (settings: NetworkSettings) => Promise<ConnectivityResult>;
+      importSettings: () => Promise<number | null>;
+      openLogs: (profileId: string) => Promise<void>;
+      getAutoLaunch: () => Promise<boolean>;
+      setAutoLaunch: (autoLaunch: boolean) => Promise<void>;
+      getOpenAtLogin: () => Promise<boolean>;
+      setOpenAtLogin: (openAtLogin: boolean) => Promise<void>;
+      getMinimizeToTray: () => Promise<boolean>;
+      getNotificationSettings: () => Promise<Record<string, boolean>>;
+      setNotificationEnabled: (type: string, enabled: boolean) => Promise<void>;
+      getBoardPermissions: () => Promise<Record<string, boolean>>;
+      setBoardPermission: (permission: string, allowed: boolean) => Promise<void>;
+      setMinimizeToTray: (minimizeToTray: boolean) => Promise<void>;
     };
   }
 }
@@ -18,7 +141,9 @@ declare global {
 const setupScreen = document.getElementById('setup-screen') as HTMLDivElement;
 const configScreen = document.getElementById('config-screen') as HTMLDivElement;
 const loadingScreen = document.getElementById('loading-screen') as HTMLDivElement;
+const errorScreen = document.getElementById('error-screen') as HTMLDivElement;
 
+const nodeCandidatesSelect = document.getElementById('node-candidates') as HTMLSelectElement;
 const nodePathInput = document.getElementById('node-path') as HTMLInputElement;
 const npxPathInput = document.getElementById('npx-path') as HTMLInputElement;
 const browseNodeBtn = document.getElementById('browse-node-btn') as HTMLButtonElement;
@@ -26,24 +151,505 @@ const browseNpxBtn = document.getElementById('browse-npx-btn') as HTMLButtonElem
 const savePathsBtn = document.getElementById('save-paths-btn') as HTMLButtonElement;
 const setupStatus = document.getElementById('setup-status') as HTMLParagraphElement;
 
+const profileSelect = document.getElementById('profile-select') as HTMLSelectElement;
+const newProfileBtn = document.getElementById('new-profile-btn') as HTMLButtonElement;
+const deleteProfileBtn = document.getElementById('delete-profile-btn') as HTMLButtonElement;
+const profileNameInput = document.getElementById('profile-name') as HTMLInputElement;
 const portInput = document.getElementById('port') as HTMLInputElement;
+const serverModeSelect = document.getElementById('server-mode') as HTMLSelectElement;
+const localSettings = document.getElementById('local-settings') as HTMLDivElement;
+const remoteSettings = document.getElementById('remote-settings') as HTMLDivElement;
+const remoteUrlInput = document.getElementById('remote-url') as HTMLInputElement;
+const remoteUrlList = document.getElementById('remote-url-list') as HTMLDataListElement;
+const testRemoteBtn = document.getElementById('test-remote-btn') as HTMLButtonElement;
+const remoteStatus = document.getElementById('remote-status') as HTMLParagraphElement;
+const portHint = document.getElementById('port-hint') as HTMLParagraphElement;
+const portRangeInput = document.getElementById('port-range') as HTMLInputElement;
+const reuseLastPortCheckbox = document.getElementById('reuse-last-port') as HTMLInputElement;
+const cwdInput = document.getElementById('cwd') as HTMLInputElement;
+const cwdList = document.getElementById('cwd-list') as HTMLDataListElement;
+const browseCwdBtn = document.getElementById('browse-cwd-btn') as HTMLButtonElement;
+const cwdStatus = document.getElementById('cwd-status') as HTMLParagraphElement;
+const vkVersionInput = document.getElementById('vk-version') as HTMLInputElement;
+const vkVersionList = document.getElementById('vk-version-list') as HTMLDataListElement;
+const restartPolicySelect = document.getElementById('restart-policy') as HTMLSelectElement;
+const healthPathInput = document.getElementById('health-path') as HTMLInputElement;
+const envRows = document.getElementById('env-rows') as HTMLDivElement;
+const addEnvBtn = document.getElementById('add-env-btn') as HTMLButtonElement;
+const previewEnvBtn = document.getElementById('preview-env-btn') as HTMLButtonElement;
+const envPreview = document.getElementById('env-preview') as HTMLPreElement;
+const autoLaunchCheckbox = document.getElementById('auto-launch') as HTMLInputElement;
+const openAtLoginCheckbox = document.getElementById('open-at-login') as HTMLInputElement;
+const notificationCheckboxes = document.querySelectorAll<HTMLInputElement>('.notification-setting');
+const boardPermissionCheckboxes = document.querySelectorAll<HTMLInputElement>('.board-permission');
+const minimizeToTrayCheckbox = document.getElementById('minimize-to-tray') as HTMLInputElement;
+const registryUrlInput = document.getElementById('registry-url') as HTMLInputElement;
+const httpProxyInput = document.getElementById('http-proxy') as HTMLInputElement;
+const httpsProxyInput = document.getElementById('https-proxy') as HTMLInputElement;
+const noProxyInput = document.getElementById('no-proxy') as HTMLInputElement;
+const caFileInput = document.getElementById('ca-file') as HTMLInputElement;
+const browseCaFileBtn = document.getElementById('browse-ca-file-btn') as HTMLButtonElement;
+const strictSslCheckbox = document.getElementById('strict-ssl') as HTMLInputElement;
+const networkSettingInputs = document.querySelectorAll<HTMLInputElement>('.network-setting');
+const testConnectivityBtn = document.getElementById('test-connectivity-btn') as HTMLButtonElement;
+const networkStatus = document.getElementById('network-status') as HTMLParagraphElement;
+const connectivitySteps = document.getElementById('connectivity-steps') as HTMLOListElement;
+const exportSettingsBtn = document.getElementById('export-settings-btn') as HTMLButtonElement;
+const importSettingsBtn = document.getElementById('import-settings-btn') as HTMLButtonElement;
+const settingsFileStatus = document.getElementById('settings-file-status') as HTMLParagraphElement;
 const launchBtn = document.getElementById('launch-btn') as HTMLButtonElement;
+const loadingStatus = document.getElementById('loading-status') as HTMLParagraphElement;
+const startupSteps = document.getElementById('startup-steps') as HTMLOListElement;
+const startupLine = document.getElementById('startup-line') as HTMLParagraphElement;
+const cancelLaunchBtn = document.getElementById('cancel-launch-btn') as HTMLButtonElement;
+const errorTitle = document.getElementById('error-title') as HTMLParagraphElement;
+const errorMessageBox = document.getElementById('error-message') as HTMLPreElement;
+const errorGuidance = document.getElementById('error-guidance') as HTMLParagraphElement;
+const errorActionButtons = document.querySelectorAll<HTMLButtonElement>('.error-actions button');
+const errorSettingsLink = document.getElementById('error-settings-link') as HTMLAnchorElement;
+const changeNodeLink = document.getElementById('change-node-link') as HTMLAnchorElement;
+const viewLogsLinks = document.querySelectorAll<HTMLAnchorElement>('.view-logs');
+
+const PHASE_LABELS: Record<StartupPhase, string> = {
+  'shell-env': 'Reading shell environment',
+  node: 'Resolving Node.js',
+  install: 'Installing vibe-kanban',
+  spawn: 'Starting server',
+  url: 'Waiting for server URL',
+  health: 'Waiting for server to respond',
+};
+
+const ERROR_HELP: Record<ServerErrorKind, { title: string; guidance: string; actions: ErrorAction[] }> = {
+  'paths-not-configured': {
+    title: 'Node.js Not Set Up',
+    guidance: 'VK Wrapper needs a working Node.js and npx to run vibe-kanban. Pick an installation, then launch again.',
+    actions: ['reconfigure-paths', 'copy-diagnostics'],
+  },
+  'node-too-old': {
+    title: 'Node.js Too Old',
+    guidance: 'The configured Node.js can\'t run this version of vibe-kanban. Choose a newer installation.',
+    actions: ['reconfigure-paths', 'open-logs', 'copy-diagnostics'],
+  },
+  'registry-unreachable': {
+    title: 'Can\'t Reach npm',
+    guidance: 'vibe-kanban could not be downloaded from the npm registry. Check your connection or VPN, set up a '
+      + 'registry mirror, proxy or CA bundle in the network settings and test it there, or pin a version that is '
+      + 'already cached.',
+    actions: ['network-settings', 'retry', 'open-logs', 'copy-diagnostics'],
+  },
+  'port-busy': {
+    title: 'Port In Use',
+    guidance: 'Another program is listening on this profile\'s port. Close it, or pick another port '
+      + '(leave it empty to choose one automatically).',
+    actions: ['change-port', 'retry', 'open-logs', 'copy-diagnostics'],
+  },
+  timeout: {
+    title: 'Server Didn\'t Start in Time',
+    guidance: 'The server took too long to become ready. The logs show how far it got; '
+      + 'a slow first install or a busy machine can cause this, and retrying often helps.',
+    actions: ['retry', 'open-logs', 'copy-diagnostics'],
+  },
+  'permission-denied': {
+    title: 'Permission Denied',
+    guidance: 'The system blocked access to a file or port. Check that your user can read the working directory '
+      + 'and the Node.js installation, and avoid ports below 1024.',
+    actions: ['retry', 'change-port', 'reconfigure-paths', 'open-logs', 'copy-diagnostics'],
+  },
+  crashed: {
+    title: 'Server Stopped',
+    guidance: 'The vibe-kanban server stopped after it had started. The logs show why it exited.',
+    actions: ['retry', 'open-logs', 'copy-diagnostics'],
+  },
+  unknown: {
+    title: 'Failed to Start',
+    guidance: 'Check the server logs for details, then try again.',
+    actions: ['retry', 'open-logs', 'copy-diagnostics'],
+  },
+};
+
+let state: ProfilesState | null = null;
+// The failure the error screen is showing
+let shownError: { kind: ServerErrorKind; message: string; profileId: string } | null = null;
+// Latest launch progress, and when it arrived, for the running clock
+let startupProgress: { progress: StartupProgress; receivedAt: number } | null = null;
+let startupTimer: number | null = null;
+// The profile whose settings are currently in the form
+let shownProfileId = '';
+
+// IPC errors arrive wrapped as "Error invoking remote method '...': Error: <message>"
+function errorMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.replace(/^Error invoking remote method '[^']+': (?:Error: )?/, '');
+}
 
 // Check if paths are configured on startup
 async function checkConfig() {
+  const params = new URLSearchParams(location.search);
+
+  // Auto-launch skips the config screen
+  if (params.get('screen') === 'loading') {
+    loadingScreen.classList.add('visible');
+    return;
+  }
+
+  // A launch failed or the server gave up
+  if (params.get('screen') === 'error') {
+    showErrorScreen(params);
+    return;
+  }
+
+  // Opened from the Settings menu
+  if (params.get('screen') === 'setup') {
+    await showSetupScreen();
+    return;
+  }
+
   const paths = await window.electronAPI.getPaths();
+  // Remote profiles don't run anything locally, so they don't need Node.js
+  const { profiles, activeProfileId } = await window.electronAPI.getProfiles();
+  const activeIsRemote = profiles.find(profile => profile.id === activeProfileId)?.mode === 'remote';
 
-  if (paths.nodePath && paths.npxPath) {
+  if ((paths.nodePath && paths.npxPath) || activeIsRemote) {
     // Already configured, show main config screen
     setupScreen.classList.remove('visible');
     configScreen.classList.add('visible');
+    await loadProfiles();
+
+    // e.g. Server > Change Port
+    const focusId = params.get('focus');
+    if (focusId) {
+      (document.getElementById(focusId) as HTMLInputElement | null)?.select();
+    }
   } else {
     // Need user to configure
-    setupScreen.classList.add('visible');
-    configScreen.classList.remove('visible');
+    await showSetupScreen();
+  }
+}
+
+function showErrorScreen(params: URLSearchParams) {
+  const param = params.get('kind') || '';
+  const kind = param in ERROR_HELP ? param as ServerErrorKind : 'unknown';
+  const help = ERROR_HELP[kind];
+  shownError = { kind, message: params.get('message') || '', profileId: params.get('profile') || '' };
+
+  errorTitle.textContent = help.title;
+  errorMessageBox.textContent = shownError.message;
+  errorGuidance.textContent = help.guidance;
+  errorActionButtons.forEach((button) => {
+    const action = button.dataset.action as ErrorAction;
+    // Nothing to retry or show logs for if the profile is gone
+    const needsProfile = action === 'retry' || action === 'open-logs';
+    const offered = action === 'save-diagnostics' || help.actions.includes(action);
+    button.classList.toggle('visible', offered && (!needsProfile || shownError?.profileId !== ''));
+  });
+  errorScreen.classList.add('visible');
+}
+
+// Show the node/npx setup screen and offer the installations found on this machine
+async function showSetupScreen() {
+  setupScreen.classList.add('visible');
+  configScreen.classList.remove('visible');
+
+  const paths = await window.electronAPI.getPaths();
+  nodePathInput.value = paths.nodePath || '';
+  npxPathInput.value = paths.npxPath || '';
+
+  nodeCandidatesSelect.disabled = true;
+  nodeCandidatesSelect.replaceChildren(new Option('Searching for Node.js installations...', ''));
+  setupStatus.textContent = '';
+  setupStatus.className = 'status';
+
+  const candidates = await window.electronAPI.discoverNode();
+
+  const placeholder = new Option(
+    candidates.length > 0 ? 'Choose a detected installation' : 'No installations found, locate node and npx below',
+    ''
+  );
+  nodeCandidatesSelect.replaceChildren(
+    placeholder,
+    ...candidates.map((candidate) => {
+      const details = candidate.supported
+        ? `${candidate.source}${candidate.recommended ? ', recommended' : ''}`
+        : candidate.reason;
+      const option = new Option(`${candidate.version || 'unknown'} (${details}) ${candidate.nodePath}`, candidate.nodePath);
+      option.disabled = !candidate.supported;
+      option.dataset.npxPath = candidate.npxPath;
+      return option;
+    })
+  );
+  nodeCandidatesSelect.disabled = candidates.length === 0;
+
+  // Keep an existing configuration selected, otherwise preselect the recommended one
+  const current = candidates.find(candidate => candidate.nodePath === paths.nodePath);
+  const preselected = current ?? (paths.nodePath ? undefined : candidates.find(candidate => candidate.recommended));
+  if (preselected) {
+    nodeCandidatesSelect.value = preselected.nodePath;
+    nodePathInput.value = preselected.nodePath;
+    npxPathInput.value = preselected.npxPath;
+  }
+}
+
+function selectedProfile(): Profile | undefined {
+  return state?.profiles.find(profile => profile.id === profileSelect.value);
+}
+
+function isRunning(profileId: string): boolean {
+  return state?.runningProfileIds.includes(profileId) ?? false;
+}
+
+// Show the settings for starting a local server or for connecting to one
+function updateModeSettings() {
+  const remote = serverModeSelect.value === 'remote';
+  localSettings.classList.toggle('visible', !remote);
+  remoteSettings.classList.toggle('visible', remote);
+  changeNodeLink.style.display = remote ? 'none' : '';
+  remoteStatus.textContent = 'A vibe-kanban server on another machine or in a container';
+  remoteStatus.className = 'hint';
+}
+
+// Show where the server will start, or why it can't start there
+async function updateCwdStatus() {
+  const result = await window.electronAPI.checkCwd(cwdInput.value.trim() || undefined);
+  cwdStatus.textContent = result.error || `Starts in ${result.path}`;
+  cwdStatus.className = result.error ? 'hint error' : 'hint';
+}
+
+// Add a row to the environment editor. Stored secrets come back with an empty
+// value; leaving it empty keeps the stored one
+function addEnvRow(envVar: EnvVar = { key: '', value: '', secret: false }, stored = false) {
+  const row = document.createElement('div');
+  row.className = 'env-row';
+
+  const keyInput = document.createElement('input');
+  keyInput.type = 'text';
+  keyInput.className = 'env-key';
+  keyInput.placeholder = 'NAME';
+  keyInput.value = envVar.key;
+
+  const valueInput = document.createElement('input');
+  valueInput.type = envVar.secret ? 'password' : 'text';
+  valueInput.className = 'env-value';
+  valueInput.placeholder = stored ? '(unchanged)' : 'value';
+  valueInput.value = envVar.value;
+
+  const secretLabel = document.createElement('label');
+  secretLabel.className = 'checkbox-label';
+  const secretCheckbox = document.createElement('input');
+  secretCheckbox.type = 'checkbox';
+  secretCheckbox.className = 'env-secret';
+  secretCheckbox.checked = envVar.secret;
+  secretCheckbox.addEventListener('change', () => {
+    valueInput.type = secretCheckbox.checked ? 'password' : 'text';
+  });
+  secretLabel.append(secretCheckbox, 'Secret');
+
+  const removeBtn = document.createElement('button');
+  removeBtn.type = 'button';
+  removeBtn.className = 'btn-secondary';
+  removeBtn.textContent = '\u2715';
+  removeBtn.title = 'Remove';
+  removeBtn.addEventListener('click', () => row.remove());
+
+  row.append(keyInput, valueInput, secretLabel, removeBtn);
+  envRows.append(row);
+  return keyInput;
+}
+
+function readEnv(): EnvVar[] {
+  return [...envRows.querySelectorAll<HTMLDivElement>('.env-row')]
+    .map(row => ({
+      key: (row.querySelector('.env-key') as HTMLInputElement).value.trim(),
+      value: (row.querySelector('.env-value') as HTMLInputElement).value,
+      secret: (row.querySelector('.env-secret') as HTMLInputElement).checked,
+    }))
+    .filter(envVar => envVar.key !== '');
+}
+
+// Fill the form with a profile's settings
+async function showProfile(profile: Profile) {
+  shownProfileId = profile.id;
+  profileNameInput.value = profile.name;
+  serverModeSelect.value = profile.mode || 'local';
+  remoteUrlInput.value = profile.remoteUrl || '';
+  updateModeSettings();
+  portInput.value = profile.port ? String(profile.port) : '';
+  portHint.textContent = profile.lastPort
+    ? `Leave empty for automatic port selection. Last started on ${profile.lastPort}`
+    : 'Leave empty for automatic port selection';
+  portRangeInput.value = profile.portRange || '';
+  reuseLastPortCheckbox.checked = profile.reuseLastPort ?? false;
+  cwdInput.value = profile.cwd || '';
+  updateCwdStatus();
+  vkVersionInput.value = profile.vkVersion || 'latest';
+  restartPolicySelect.value = profile.restartPolicy || 'on-failure';
+  healthPathInput.value = profile.healthPath || '';
+
+  const running = isRunning(profile.id);
+  launchBtn.textContent = running
+    ? 'Switch to Running Board'
+    : profile.mode === 'remote' ? 'Connect' : 'Launch Vibe Kanban';
+  deleteProfileBtn.disabled = running || (state?.profiles.length ?? 0) < 2;
+
+  envPreview.classList.remove('visible');
+  envRows.replaceChildren();
+  for (const envVar of await window.electronAPI.getProfileEnv(profile.id)) {
+    addEnvRow(envVar, envVar.secret);
+  }
+}
+
+// Load profiles into the picker and select the given (or last used) one
+async function loadProfiles(selectId?: string) {
+  state = await window.electronAPI.getProfiles();
+
+  profileSelect.replaceChildren(
+    ...state.profiles.map((profile) => {
+      const option = document.createElement('option');
+      option.value = profile.id;
+      option.textContent = isRunning(profile.id) ? `${profile.name} (running)` : profile.name;
+      return option;
+    })
+  );
+  profileSelect.value = selectId || state.activeProfileId;
+
+  // Offer cached versions as suggestions
+  vkVersionList.replaceChildren(
+    ...['latest', ...state.cachedVersions].map((value) => {
+      const option = document.createElement('option');
+      option.value = value;
+      return option;
+    })
+  );
+
+  // Offer servers connected to before
+  remoteUrlList.replaceChildren(
+    ...state.savedConnections.map((value) => {
+      const option = document.createElement('option');
+      option.value = value;
+      return option;
+    })
+  );
+
+  // Offer recently used working directories
+  cwdList.replaceChildren(
+    ...state.recentDirectories.map((value) => {
+      const option = document.createElement('option');
+      option.value = value;
+      return option;
+    })
+  );
+
+  const profile = selectedProfile();
+  if (profile) {
+    await showProfile(profile);
+  }
+
+  minimizeToTrayCheckbox.checked = await window.electronAPI.getMinimizeToTray();
+  autoLaunchCheckbox.checked = await window.electronAPI.getAutoLaunch();
+  openAtLoginCheckbox.checked = await window.electronAPI.getOpenAtLogin();
+
+  const notificationSettings = await window.electronAPI.getNotificationSettings();
+  notificationCheckboxes.forEach((checkbox) => {
+    checkbox.checked = notificationSettings[checkbox.dataset.type || ''] ?? true;
+  });
+
+  const boardPermissions = await window.electronAPI.getBoardPermissions();
+  boardPermissionCheckboxes.forEach((checkbox) => {
+    checkbox.checked = boardPermissions[checkbox.dataset.permission || ''] ?? false;
+  });
+
+  const network = await window.electronAPI.getNetworkSettings();
+  registryUrlInput.value = network.registry || '';
+  httpProxyInput.value = network.httpProxy || '';
+  httpsProxyInput.value = network.httpsProxy || '';
+  noProxyInput.value = network.noProxy || '';
+  caFileInput.value = network.caFile || '';
+  strictSslCheckbox.checked = network.strictSsl !== false;
+}
+
+function readNetworkSettings(): NetworkSettings {
+  return {
+    registry: registryUrlInput.value.trim(),
+    httpProxy: httpProxyInput.value.trim(),
+    httpsProxy: httpsProxyInput.value.trim(),
+    noProxy: noProxyInput.value.trim(),
+    caFile: caFileInput.value.trim(),
+    strictSsl: strictSslCheckbox.checked,
+  };
+}
+
+async function saveNetworkSettings() {
+  try {
+    await window.electronAPI.setNetworkSettings(readNetworkSettings());
+    networkStatus.textContent = '';
+    networkStatus.className = 'hint';
+  } catch (error) {
+    networkStatus.textContent = errorMessage(error);
+    networkStatus.className = 'hint error';
+  }
+}
+
+// Read the form back into the selected profile. Returns null if it's invalid.
+function readProfile(): Profile | null {
+  const profile = selectedProfile();
+  if (!profile) {
+    return null;
+  }
+
+  const portValue = portInput.value.trim();
+  const port = portValue ? parseInt(portValue, 10) : undefined;
+
+  // Validate port if provided
+  if (port !== undefined && (isNaN(port) || port < 1024 || port > 65535)) {
+    alert('Please enter a valid port number between 1024 and 65535');
+    return null;
+  }
+
+  return {
+    ...profile,
+    name: profileNameInput.value.trim(),
+    mode: serverModeSelect.value === 'remote' ? 'remote' : 'local',
+    remoteUrl: remoteUrlInput.value.trim() || undefined,
+    port,
+    portRange: portRangeInput.value.trim() || undefined,
+    reuseLastPort: reuseLastPortCheckbox.checked,
+    cwd: cwdInput.value.trim() || undefined,
+    vkVersion: vkVersionInput.value.trim() || 'latest',
+    restartPolicy: restartPolicySelect.value,
+    healthPath: healthPathInput.value.trim() || undefined,
+  };
+}
+
+async function saveProfile(): Promise<boolean> {
+  const profile = readProfile();
+  if (!profile) {
+    return false;
+  }
+
+  try {
+    await window.electronAPI.updateProfile(profile);
+    await window.electronAPI.setProfileEnv(profile.id, readEnv());
+    return true;
+  } catch (error) {
+    alert(errorMessage(error));
+    return false;
   }
 }
 
+// Use a detected installation
+nodeCandidatesSelect.addEventListener('change', () => {
+  const option = nodeCandidatesSelect.selectedOptions[0];
+  if (option && option.value) {
+    nodePathInput.value = option.value;
+    npxPathInput.value = option.dataset.npxPath || '';
+    setupStatus.textContent = '';
+  }
+});
+
+changeNodeLink.addEventListener('click', (e) => {
+  e.preventDefault();
+  showSetupScreen();
+});
+
 // Browse for node
 browseNodeBtn.addEventListener('click', async () => {
   const selected = await window.electronAPI.browseForNode();
@@ -73,19 +679,319 @@ savePathsBtn.addEventListener('click', async () => {
     return;
   }
 
-  await window.electronAPI.setPaths(nodePath, npxPath);
+  savePathsBtn.disabled = true;
+  setupStatus.textContent = 'Checking Node.js version...';
+  setupStatus.className = 'status';
+  try {
+    await window.electronAPI.setPaths(nodePath, npxPath);
+  } catch (error) {
+    setupStatus.textContent = errorMessage(error);
+    setupStatus.className = 'status error';
+    return;
+  } finally {
+    savePathsBtn.disabled = false;
+  }
+
+  setupStatus.textContent = '';
   setupScreen.classList.remove('visible');
   configScreen.classList.add('visible');
+  await loadProfiles();
+});
+
+// Switching profiles keeps the edits made to the one being left
+profileSelect.addEventListener('change', async () => {
+  const nextId = profileSelect.value;
+  profileSelect.value = shownProfileId;
+  if (await saveProfile()) {
+    await loadProfiles(nextId);
+  }
+});
+
+newProfileBtn.addEventListener('click', async () => {
+  if (!(await saveProfile())) {
+    return;
+  }
+  const profile = await window.electronAPI.createProfile(`Profile ${(state?.profiles.length ?? 0) + 1}`);
+  await loadProfiles(profile.id);
+  profileNameInput.focus();
+  profileNameInput.select();
+});
+
+deleteProfileBtn.addEventListener('click', async () => {
+  const profile = selectedProfile();
+  if (!profile || !confirm(`Delete the profile "${profile.name}"?`)) {
+    return;
+  }
+
+  try {
+    await window.electronAPI.deleteProfile(profile.id);
+  } catch (error) {
+    alert(errorMessage(error));
+  }
+  await loadProfiles();
+});
+
+serverModeSelect.addEventListener('change', () => {
+  updateModeSettings();
+  if (!isRunning(shownProfileId)) {
+    launchBtn.textContent = serverModeSelect.value === 'remote' ? 'Connect' : 'Launch Vibe Kanban';
+  }
+});
+
+testRemoteBtn.addEventListener('click', async () => {
+  const url = remoteUrlInput.value.trim();
+  if (!url) {
+    return;
+  }
+
+  testRemoteBtn.disabled = true;
+  remoteStatus.textContent = `Checking ${url}...`;
+  remoteStatus.className = 'hint';
+  const result = await window.electronAPI.checkRemoteUrl(url);
+  testRemoteBtn.disabled = false;
+
+  remoteStatus.textContent = result.ok
+    ? `Server responded in ${result.latencyMs}ms`
+    : `Not reachable: ${result.error}`;
+  remoteStatus.className = result.ok ? 'hint' : 'hint error';
+});
+
+browseCwdBtn.addEventListener('click', async () => {
+  const selected = await window.electronAPI.browseForCwd(cwdInput.value.trim() || undefined);
+  if (selected) {
+    cwdInput.value = selected;
+    updateCwdStatus();
+  }
+});
+
+cwdInput.addEventListener('change', () => {
+  updateCwdStatus();
+});
+
+networkSettingInputs.forEach((input) => {
+  input.addEventListener('change', () => saveNetworkSettings());
+});
+
+browseCaFileBtn.addEventListener('click', async () => {
+  const selected = await window.electronAPI.browseForCaFile();
+  if (selected) {
+    caFileInput.value = selected;
+    await saveNetworkSettings();
+  }
+});
+
+testConnectivityBtn.addEventListener('click', async () => {
+  testConnectivityBtn.disabled = true;
+  connectivitySteps.replaceChildren();
+  networkStatus.textContent = 'Testing...';
+  networkStatus.className = 'hint';
+
+  try {
+    const result = await window.electronAPI.testConnectivity(readNetworkSettings());
+    connectivitySteps.replaceChildren(...result.steps.map((step) => {
+      const item = document.createElement('li');
+      item.className = step.ok ? 'ok' : 'failed';
+      item.textContent = `${step.label} (${step.durationMs}ms)`;
+      if (step.detail) {
+        const detail = document.createElement('span');
+        detail.className = 'step-detail';
+        detail.textContent = step.detail;
+        item.appendChild(detail);
+      }
+      return item;
+    }));
+    networkStatus.textContent = result.ok
+      ? `npm can reach ${result.registry}`
+      : `npm can't reach ${result.registry}. The step that failed is marked below`;
+    networkStatus.className = result.ok ? 'hint' : 'hint error';
+  } catch (error) {
+    networkStatus.textContent = errorMessage(error);
+    networkStatus.className = 'hint error';
+  } finally {
+    testConnectivityBtn.disabled = false;
+  }
+});
+
+addEnvBtn.addEventListener('click', () => {
+  addEnvRow().focus();
+});
+
+// Save first so the preview reflects the form, then show what the server would get
+previewEnvBtn.addEventListener('click', async () => {
+  if (!(await saveProfile())) {
+    return;
+  }
+
+  // Reload so secrets that were just typed in show as stored, not in plain text
+  await loadProfiles(profileSelect.value);
+
+  const entries = await window.electronAPI.previewProfileEnv(profileSelect.value);
+  envPreview.textContent = entries
+    .map(entry => `${entry.key}=${entry.value}${entry.source === 'shell' ? '' : `  [${entry.source}]`}`)
+    .join('\n');
+  envPreview.classList.add('visible');
+});
+
+autoLaunchCheckbox.addEventListener('change', () => {
+  window.electronAPI.setAutoLaunch(autoLaunchCheckbox.checked);
+});
+
+openAtLoginCheckbox.addEventListener('change', async () => {
+  try {
+    await window.electronAPI.setOpenAtLogin(openAtLoginCheckbox.checked);
+  } catch (error) {
+    openAtLoginCheckbox.checked = !openAtLoginCheckbox.checked;
+    alert(errorMessage(error));
+  }
+});
+
+notificationCheckboxes.forEach((checkbox) => {
+  checkbox.addEventListener('change', () => {
+    window.electronAPI.setNotificationEnabled(checkbox.dataset.type || '', checkbox.checked);
+  });
+});
+
+boardPermissionCheckboxes.forEach((checkbox) => {
+  checkbox.addEventListener('change', () => {
+    window.electronAPI.setBoardPermission(checkbox.dataset.permission || '', checkbox.checked);
+  });
+});
+
+minimizeToTrayCheckbox.addEventListener('change', () => {
+  window.electronAPI.setMinimizeToTray(minimizeToTrayCheckbox.checked);
+});
+
+exportSettingsBtn.addEventListener('click', async () => {
+  // Export what's on screen, not what was last saved
+  if (!(await saveProfile())) {
+    return;
+  }
+  const filePath = await window.electronAPI.exportSettings();
+  if (filePath) {
+    settingsFileStatus.textContent = `Exported to ${filePath}. Secret variables are not included`;
+  }
+});
+
+importSettingsBtn.addEventListener('click', async () => {
+  try {
+    const count = await window.electronAPI.importSettings();
+    if (count === null) {
+      return;
+    }
+    await loadProfiles(profileSelect.value);
+    settingsFileStatus.textContent = `Imported ${count} profile${count === 1 ? '' : 's'}`;
+  } catch (error) {
+    alert(errorMessage(error));
+  }
+});
+
+function formatSeconds(ms: number): string {
+  return `${Math.floor(ms / 1000)}s`;
+}
+
+function renderStartupProgress() {
+  if (!startupProgress) {
+    return;
+  }
+
+  const { progress, receivedAt } = startupProgress;
+  const now = progress.elapsedMs + (Date.now() - receivedAt);
+
+  startupSteps.replaceChildren(...progress.steps.map((step, index) => {
+    const next = progress.steps[index + 1];
+    const item = document.createElement('li');
+    item.className = next ? 'done' : 'active';
+
+    const label = document.createElement('span');
+    label.className = 'step-label';
+    label.textContent = PHASE_LABELS[step.phase];
+    const duration = document.createElement('span');
+    duration.textContent = formatSeconds((next ? next.startedMs : now) - step.startedMs);
+
+    item.append(label, duration);
+    return item;
+  }));
+
+  startupLine.textContent = progress.lastLine || '';
+  startupLine.title = progress.lastLine || '';
+  loadingStatus.textContent = `Starting server... ${formatSeconds(now)}`;
+}
+
+window.electronAPI.onStartupProgress((progress) => {
+  startupProgress = { progress, receivedAt: Date.now() };
+  renderStartupProgress();
+  if (startupTimer === null) {
+    startupTimer = window.setInterval(renderStartupProgress, 1000);
+  }
+});
+
+// The main process sends the window back to the config screen once stopped
+cancelLaunchBtn.addEventListener('click', async () => {
+  cancelLaunchBtn.disabled = true;
+  loadingStatus.textContent = 'Cancelling...';
+  if (startupTimer !== null) {
+    window.clearInterval(startupTimer);
+    startupTimer = null;
+  }
+  await window.electronAPI.cancelLaunch();
+});
+
+errorActionButtons.forEach((button) => {
+  button.addEventListener('click', async () => {
+    if (!shownError) {
+      return;
+    }
+    const { kind, message, profileId } = shownError;
+
+    switch (button.dataset.action as ErrorAction) {
+      case 'retry':
+        errorScreen.classList.remove('visible');
+        loadingScreen.classList.add('visible');
+        try {
+          await window.electronAPI.launchServer(profileId);
+        } catch (error) {
+          // A new failure replaces this page with another error screen
+          console.error('Failed to launch server:', error);
+        }
+        break;
+      case 'change-port':
+        location.search = '?focus=port';
+        break;
+      case 'reconfigure-paths':
+        location.search = '?screen=setup';
+        break;
+      case 'network-settings':
+        location.search = '?focus=registry-url';
+        break;
+      case 'open-logs':
+        await window.electronAPI.openLogs(profileId);
+        break;
+      case 'copy-diagnostics':
+        await window.electronAPI.copyDiagnostics(profileId, kind, message);
+        button.textContent = 'Copied';
+        break;
+      case 'save-diagnostics':
+        await window.electronAPI.saveDiagnosticsBundle();
+        break;
+    }
+  });
+});
+
+errorSettingsLink.addEventListener('click', (e) => {
+  e.preventDefault();
+  location.search = '';
 });
 
 // Handle launch button click
 launchBtn.addEventListener('click', async () => {
-  const portValue = portInput.value.trim();
-  const port = portValue ? parseInt(portValue, 10) : undefined;
+  const profile = selectedProfile();
+  if (!profile || !(await saveProfile())) {
+    return;
+  }
 
-  // Validate port if provided
-  if (port !== undefined && (isNaN(port) || port < 1024 || port > 65535)) {
-    alert('Please enter a valid port number between 1024 and 65535');
+  // The profile already has a board window, just bring it forward
+  if (isRunning(profile.id)) {
+    await window.electronAPI.focusProfile(profile.id);
     return;
   }
 
@@ -96,13 +1002,21 @@ launchBtn.addEventListener('click', async () => {
 
   // Launch the server
   try {
-    await window.electronAPI.launchServer(port);
+    await window.electronAPI.launchServer(profile.id);
   } catch (error) {
     // Error will be handled by main process showing error page
     console.error('Failed to launch server:', error);
   }
 });
 
+// Open the server log window
+viewLogsLinks.forEach((link) => {
+  link.addEventListener('click', (e) => {
+    e.preventDefault();
+    window.electronAPI.openLogs(profileSelect.value);
+  });
+});
+
 // Allow Enter key to submit
 portInput.addEventListener('keydown', (e) => {
   if (e.key === 'Enter') {
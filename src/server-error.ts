@@ -0,0 +1,54 @@
+export type ServerErrorKind =
+  | 'paths-not-configured'
+  | 'node-too-old'
+  | 'registry-unreachable'
+  | 'port-busy'
+  | 'timeout'
+  | 'permission-denied'
+  // The server had been ready and then stopped for good
+  | 'crashed'
+  | 'unknown';
+
+/**
+ * A launch or runtime failure, tagged with what went wrong so the error
+ * screen can explain it and offer the right way out.
+ */
+export class ServerError extends Error {
+  readonly kind: ServerErrorKind;
+
+  constructor(kind: ServerErrorKind, message: string) {
+    super(message);
+    this.name = 'ServerError';
+    this.kind = kind;
+  }
+}
+
+// Checked in order; the first match decides the kind
+const PATTERNS: Array<{ kind: ServerErrorKind; regex: RegExp }> = [
+  { kind: 'port-busy', regex: /AddrInUse|Address already in use|EADDRINUSE/i },
+  { kind: 'permission-denied', regex: /EACCES|EPERM|Permission denied|Operation not permitted/i },
+  {
+    kind: 'registry-unreachable',
+    regex: /Could not reach the npm registry|ENOTFOUND|EAI_AGAIN|ECONNREFUSED|ECONNRESET|ETIMEDOUT|ERR_SOCKET_TIMEOUT|network request/i,
+  },
+  {
+    kind: 'node-too-old',
+    regex: /Unsupported engine|EBADENGINE|requires Node(?:\.js)?|ERR_UNKNOWN_BUILTIN_MODULE|SyntaxError: Unexpected token/i,
+  },
+  { kind: 'timeout', regex: /timed? ?out/i },
+];
+
+/**
+ * Turn any error into a ServerError. Errors raised by the wrapper already
+ * carry a kind; others (npm, the server's own output) are recognized by their
+ * message.
+ */
+export function classifyError(error: unknown): ServerError {
+  if (error instanceof ServerError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const match = PATTERNS.find(pattern => pattern.regex.test(message));
+  return new ServerError(match?.kind ?? 'unknown', message);
+}
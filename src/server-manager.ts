@@ -1,163 +1,321 @@
-import { spawn, ChildProcess, execSync } from 'child_process';
+import { spawn, ChildProcess } from 'child_process';
+import { EventEmitter } from 'events';
 import path from 'path';
 import os from 'os';
 import fs from 'fs';
-import { ConfigManager } from './config-manager';
+import { ConfigManager, Profile } from './config-manager';
+import { PackageCache, parseVersionSpec } from './package-cache';
+import { LogManager, LogStream } from './log-manager';
+import { HealthMonitor, HealthState, probeUrl } from './health-monitor';
+import { ProcessTree } from './process-tree';
+import { ShellEnvironment, isSensitiveKey } from './shell-environment';
+import { ServerError, classifyError } from './server-error';
+import { networkEnv } from './network-settings';
+
+export interface ServerExitInfo {
+  code: number | null;
+  signal: NodeJS.Signals | null;
+  // True when the exit was requested through killServer
+  expected: boolean;
+}
 
-export class ServerManager {
-  private serverProcess: ChildProcess | null = null;
-  private serverUrl: string | null = null;
-  private configManager: ConfigManager;
-  private cachedShellEnv: NodeJS.ProcessEnv | null = null;
-  private readonly URL_REGEX = /https?:\/\/(?:localhost|127\.0\.0\.1|0\.0\.0\.0):\d+/;
-  private readonly STARTUP_TIMEOUT = 60000; // 60 seconds (first run may need to download)
+// The steps of a launch, in order. Remote profiles only have 'health'
+export type StartupPhase = 'shell-env' | 'node' | 'install' | 'spawn' | 'url' | 'health';
 
-  constructor(configManager: ConfigManager) {
-    this.configManager = configManager;
+export interface StartupProgress {
+  phase: StartupPhase;
+  // Phases reached so far, with when each began (ms after the launch started)
+  steps: Array<{ phase: StartupPhase; startedMs: number }>;
+  elapsedMs: number;
+  // Latest line printed by npm or the server
+  lastLine: string | null;
+}
+
+// Message of the error startServer rejects with after cancelStartup
+export const STARTUP_CANCELLED = 'STARTUP_CANCELLED';
+
+// eslint-disable-next-line no-control-regex
+const ANSI_REGEX = /\x1b\[[0-9;]*[A-Za-z]/g;
+
+function lastLineOf(output: string): string | null {
+  const lines = output.replace(ANSI_REGEX, '').split(/\r?\n|\r/).map(line => line.trim()).filter(Boolean);
+  return lines.length > 0 ? lines[lines.length - 1] : null;
+}
+
+function throwIfCancelled(signal: AbortSignal): void {
+  if (signal.aborted) {
+    throw new Error(STARTUP_CANCELLED);
   }
+}
 
-  /**
-   * Capture the user's shell environment by spawning a login shell.
-   * GUI apps on macOS don't inherit the terminal environment, so we need to
-   * explicitly load the user's shell configuration to get their PATH, etc.
-   */
-  private async getShellEnvironment(): Promise<NodeJS.ProcessEnv> {
-    // Return cached environment if available
-    if (this.cachedShellEnv) {
-      return this.cachedShellEnv;
+/**
+ * Expand a working directory setting to an absolute path. Empty means the
+ * home directory.
+ */
+export function resolveWorkingDirectory(cwd?: string): string {
+  const value = cwd?.trim();
+  return value ? path.resolve(value.replace(/^~(?=$|[\\/])/, os.homedir())) : os.homedir();
+}
+
+/**
+ * Why a directory can't be used as the server's working directory, or null.
+ */
+export function checkWorkingDirectory(dir: string): string | null {
+  try {
+    if (!fs.statSync(dir).isDirectory()) {
+      return `Not a directory: ${dir}`;
     }
+  } catch {
+    return `Directory does not exist: ${dir}`;
+  }
+  return null;
+}
 
-    return new Promise((resolve) => {
-      // Use the user's preferred shell, or fall back to common shells
-      const shell = process.env.SHELL || '/bin/zsh';
+/**
+ * Check and tidy a remote server URL: http(s) only, no trailing slash.
+ * Returns null if it isn't usable.
+ */
+export function normalizeRemoteUrl(value: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return null;
+  }
+  return url.toString().replace(/\/$/, '');
+}
 
-      // -i: interactive (sources .bashrc/.zshrc)
-      // -l: login shell (sources .profile, .bash_profile, .zprofile)
-      // -c: run command
-      const child = spawn(shell, ['-ilc', 'env'], {
-        stdio: ['ignore', 'pipe', 'pipe'],
-      });
+/**
+ * Resolve a proto shim path to the actual binary path.
+ * Proto shims are wrappers that need the proto runtime, but we can
+ * find the actual binaries in ~/.proto/tools/<tool>/<version>/bin/
+ */
+export function resolveProtoShim(shimPath: string, binaryName: string): string {
+  if (!shimPath.includes('.proto/shims')) {
+    return shimPath;
+  }
 
-      let stdout = '';
-      const timeout = setTimeout(() => {
-        child.kill();
-        console.log('Shell environment capture timed out, using process.env');
-        resolve(process.env);
-      }, 5000);
+  const homeDir = os.homedir();
+  // npx comes bundled with node, so look in the node tool directory
+  const toolName = binaryName === 'npx' ? 'node' : binaryName;
+  const protoToolsDir = path.join(homeDir, '.proto', 'tools', toolName);
 
-      child.stdout?.on('data', (data: Buffer) => {
-        stdout += data.toString();
-      });
+  // Check if the tools directory exists
+  if (!fs.existsSync(protoToolsDir)) {
+    console.log(`Proto tools directory not found: ${protoToolsDir}`);
+    return shimPath;
+  }
 
-      child.on('error', (err) => {
-        clearTimeout(timeout);
-        console.log(`Failed to get shell environment: ${err.message}, using process.env`);
-        resolve(process.env);
-      });
+  // List installed versions and find the latest
+  const versions = fs.readdirSync(protoToolsDir).filter(dir => {
+    const fullPath = path.join(protoToolsDir, dir);
+    return fs.statSync(fullPath).isDirectory() && /^\d+\.\d+/.test(dir);
+  });
 
-      child.on('close', (code) => {
-        clearTimeout(timeout);
+  if (versions.length === 0) {
+    console.log(`No ${toolName} versions found in proto tools`);
+    return shimPath;
+  }
 
-        if (code !== 0) {
-          console.log(`Shell exited with code ${code}, using process.env`);
-          resolve(process.env);
-          return;
-        }
+  // Sort versions descending (highest first)
+  versions.sort((a, b) => {
+    const partsA = a.split('.').map(n => parseInt(n, 10) || 0);
+    const partsB = b.split('.').map(n => parseInt(n, 10) || 0);
+    for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+      const diff = (partsB[i] || 0) - (partsA[i] || 0);
+      if (diff !== 0) return diff;
+    }
+    return 0;
+  });
 
-        const env: NodeJS.ProcessEnv = {};
-        for (const line of stdout.split('\n')) {
-          const idx = line.indexOf('=');
-          if (idx > 0) {
-            const key = line.slice(0, idx);
-            const value = line.slice(idx + 1);
-            env[key] = value;
-          }
-        }
+  const latestVersion = versions[0];
+  const actualBinaryPath = path.join(protoToolsDir, latestVersion, 'bin', binaryName);
 
-        // Cache the result for future calls
-        this.cachedShellEnv = env;
-        console.log('Successfully captured shell environment');
-        resolve(env);
-      });
-    });
+  if (fs.existsSync(actualBinaryPath)) {
+    console.log(`Resolved proto shim ${shimPath} to ${actualBinaryPath}`);
+    return actualBinaryPath;
+  }
+
+  console.log(`Actual binary not found at: ${actualBinaryPath}`);
+  return shimPath;
+}
+
+export type EnvSource = 'shell' | 'network' | 'profile' | 'secret' | 'wrapper';
+
+export interface EnvPreviewEntry {
+  key: string;
+  value: string;
+  source: EnvSource;
+  masked: boolean;
+}
+
+/**
+ * Emits:
+ * - 'exit' (info: ServerExitInfo) when a server that had become ready stops
+ * - 'health' (state: HealthState) when the ready server's health changes
+ * - 'progress' (progress: StartupProgress) as startServer moves through its phases
+ */
+export class ServerManager extends EventEmitter {
+  private serverProcess: ChildProcess | null = null;
+  private serverUrl: string | null = null;
+  // Version of the vibe-kanban package that was spawned
+  private version: string | null = null;
+  private configManager: ConfigManager;
+  private profileId: string;
+  private logManager: LogManager;
+  private packageCache: PackageCache;
+  private shellEnvironment: ShellEnvironment;
+  private healthMonitor: HealthMonitor | null = null;
+  private processTree: ProcessTree | null = null;
+  private stopping = false;
+  // Set while startServer runs
+  private startup: {
+    abort: AbortController;
+    startedAt: number;
+    steps: StartupProgress['steps'];
+    lastLine: string | null;
+  } | null = null;
+  // Watching a server we didn't spawn: a leftover from a previous session, or a remote one
+  private attached = false;
+  private readonly URL_REGEX = /https?:\/\/(?:localhost|127\.0\.0\.1|0\.0\.0\.0):\d+/;
+  private readonly STARTUP_TIMEOUT = 60000; // 60 seconds, counted after the package is installed
+  private readonly SHUTDOWN_GRACE = 3000; // 3 seconds between SIGTERM and SIGKILL
+  private readonly ATTACH_PROBE_TIMEOUT = 5000; // 5 seconds
+
+  constructor(
+    configManager: ConfigManager,
+    profileId: string,
+    logManager: LogManager,
+    packageCache: PackageCache,
+    shellEnvironment: ShellEnvironment,
+  ) {
+    super();
+    this.configManager = configManager;
+    this.profileId = profileId;
+    this.logManager = logManager;
+    this.packageCache = packageCache;
+    this.shellEnvironment = shellEnvironment;
+  }
+
+  getProfileId(): string {
+    return this.profileId;
+  }
+
+  getLogManager(): LogManager {
+    return this.logManager;
+  }
+
+  private getProfile(): Profile {
+    const profile = this.configManager.getProfile(this.profileId);
+    if (!profile) {
+      throw new Error(`Profile not found: ${this.profileId}`);
+    }
+    return profile;
   }
 
   isRunning(): boolean {
-    return this.serverProcess !== null && !this.serverProcess.killed;
+    return (this.serverProcess !== null && !this.serverProcess.killed) || this.attached;
+  }
+
+  /**
+   * Pids of the processes this manager owns, so they aren't mistaken for
+   * leftovers from a previous session.
+   */
+  getProcessIds(): number[] {
+    const pids = this.processTree?.getTracked().map(entry => entry.pid) || [];
+    if (this.serverProcess?.pid) {
+      pids.push(this.serverProcess.pid);
+    }
+    return pids;
   }
 
   getUrl(): string | null {
     return this.serverUrl;
   }
 
-  private getShellCommand(): { shell: string; args: string[] } {
-    if (process.platform === 'win32') {
-      return {
-        shell: 'cmd.exe',
-        args: ['/c'],
-      };
-    } else {
-      // macOS and Linux - use bash as it's more universal than zsh
-      return {
-        shell: '/bin/bash',
-        args: ['-l', '-c'],
-      };
-    }
+  getVersion(): string | null {
+    return this.version;
+  }
+
+  isStarting(): boolean {
+    return this.startup !== null;
   }
 
   /**
-   * Resolve a proto shim path to the actual binary path.
-   * Proto shims are wrappers that need the proto runtime, but we can
-   * find the actual binaries in ~/.proto/tools/<tool>/<version>/bin/
+   * Abort a launch in progress, killing npm or the spawned server. startServer
+   * then rejects with STARTUP_CANCELLED.
    */
-  private resolveProtoShim(shimPath: string, binaryName: string): string {
-    if (!shimPath.includes('.proto/shims')) {
-      return shimPath;
+  cancelStartup(): void {
+    if (this.startup) {
+      this.logManager.append('system', 'Startup cancelled\n');
+      this.startup.abort.abort();
     }
+  }
 
-    const homeDir = os.homedir();
-    // npx comes bundled with node, so look in the node tool directory
-    const toolName = binaryName === 'npx' ? 'node' : binaryName;
-    const protoToolsDir = path.join(homeDir, '.proto', 'tools', toolName);
+  /**
+   * Report entering a phase, or with no phase, a new output line within the
+   * current one.
+   */
+  private reportProgress(phase: StartupPhase | null, output?: string): void {
+    const startup = this.startup;
+    if (!startup) {
+      return;
+    }
 
-    // Check if the tools directory exists
-    if (!fs.existsSync(protoToolsDir)) {
-      console.log(`Proto tools directory not found: ${protoToolsDir}`);
-      return shimPath;
+    const elapsedMs = Date.now() - startup.startedAt;
+    if (phase) {
+      startup.steps.push({ phase, startedMs: elapsedMs });
+    }
+    const line = output ? lastLineOf(output) : null;
+    if (line) {
+      startup.lastLine = line.slice(0, 200);
+    }
+    if (startup.steps.length === 0) {
+      return;
     }
 
-    // List installed versions and find the latest
-    const versions = fs.readdirSync(protoToolsDir).filter(dir => {
-      const fullPath = path.join(protoToolsDir, dir);
-      return fs.statSync(fullPath).isDirectory() && /^\d+\.\d+/.test(dir);
-    });
+    this.emit('progress', {
+      phase: startup.steps[startup.steps.length - 1].phase,
+      steps: [...startup.steps],
+      elapsedMs,
+      lastLine: startup.lastLine,
+    } as StartupProgress);
+  }
 
-    if (versions.length === 0) {
-      console.log(`No ${toolName} versions found in proto tools`);
-      return shimPath;
-    }
+  getHealthState(): HealthState | null {
+    return this.healthMonitor?.getState() ?? null;
+  }
 
-    // Sort versions descending (highest first)
-    versions.sort((a, b) => {
-      const partsA = a.split('.').map(n => parseInt(n, 10) || 0);
-      const partsB = b.split('.').map(n => parseInt(n, 10) || 0);
-      for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
-        const diff = (partsB[i] || 0) - (partsA[i] || 0);
-        if (diff !== 0) return diff;
-      }
-      return 0;
+  private watchHealth(monitor: HealthMonitor): void {
+    monitor.on('state', (state: HealthState) => {
+      this.logManager.append('system', `Health: ${state}\n`);
+      this.emit('health', state);
     });
+    monitor.start();
+  }
 
-    const latestVersion = versions[0];
-    const actualBinaryPath = path.join(protoToolsDir, latestVersion, 'bin', binaryName);
-
-    if (fs.existsSync(actualBinaryPath)) {
-      console.log(`Resolved proto shim ${shimPath} to ${actualBinaryPath}`);
-      return actualBinaryPath;
+  private rememberPort(url: string): void {
+    const port = parseInt(new URL(url).port, 10);
+    if (port) {
+      this.configManager.setLastPort(this.profileId, port);
     }
+  }
 
-    console.log(`Actual binary not found at: ${actualBinaryPath}`);
-    return shimPath;
+  private stopHealthMonitor(): void {
+    this.healthMonitor?.stop();
+    this.healthMonitor?.removeAllListeners();
+    this.healthMonitor = null;
+  }
+
+  /**
+   * npm ships alongside npx, so derive its path from the configured npx.
+   */
+  private getNpmPath(npxPath: string): string {
+    const npmName = process.platform === 'win32' ? 'npm.cmd' : 'npm';
+    return path.join(path.dirname(npxPath), npmName);
   }
 
   private getPaths(): { nodePath: string; npxPath: string } {
@@ -165,197 +323,361 @@ export class ServerManager {
     let npxPath = this.configManager.getNpxPath();
 
     if (!nodePath || !npxPath) {
-      throw new Error('PATHS_NOT_CONFIGURED');
+      throw new ServerError('paths-not-configured', 'Node.js and npx are not set up yet.');
     }
 
     // Resolve proto shims to actual binaries
     // Both node and npx are in the 'node' tool directory since npx comes with node
-    nodePath = this.resolveProtoShim(nodePath, 'node');
-    npxPath = this.resolveProtoShim(npxPath, 'npx');
+    nodePath = resolveProtoShim(nodePath, 'node');
+    npxPath = resolveProtoShim(npxPath, 'npx');
 
     return { nodePath, npxPath };
   }
 
-  async startServer(port?: number): Promise<string> {
-    // Get configured paths
-    const { nodePath, npxPath } = this.getPaths();
-    const nodeDir = path.dirname(nodePath);
-    const homeDir = os.homedir();
-
-    // Get the user's shell environment (includes their PATH, version managers, etc.)
-    const shellEnv = await this.getShellEnvironment();
+  /**
+   * The environment the server is spawned with: the user's shell environment,
+   * the network settings (which a profile can override), the profile's
+   * variables and secrets on top, then the wrapper's own settings.
+   */
+  private async buildEnvironment(nodeDir: string | null, port?: number): Promise<{
+    env: NodeJS.ProcessEnv;
+    sources: Record<string, EnvSource>;
+  }> {
+    const shellEnv = await this.shellEnvironment.get();
+    const profileEnv = this.configManager.getResolvedProfileEnv(this.profileId);
+    const netEnv = networkEnv(this.configManager.getNetworkSettings());
+    const baseEnv: NodeJS.ProcessEnv = { ...shellEnv, ...netEnv, ...profileEnv.env };
 
     // Build environment by extending the user's shell environment
-    const env: NodeJS.ProcessEnv = {
-      ...shellEnv,
+    const wrapperEnv: Record<string, string> = {
       // Prepend node directory to PATH so npx can find the configured node
-      PATH: `${nodeDir}:${shellEnv.PATH || '/usr/local/bin:/usr/bin:/bin'}`,
+      ...(nodeDir ? { PATH: `${nodeDir}${path.delimiter}${baseEnv.PATH || '/usr/local/bin:/usr/bin:/bin'}` } : {}),
       // Disable auto-opening browser since we're handling that
       BROWSER: 'none',
       // Set port if specified
       ...(port ? { PORT: String(port) } : {}),
     };
 
+    const sources: Record<string, EnvSource> = {};
+    for (const key of Object.keys(shellEnv)) sources[key] = 'shell';
+    for (const key of Object.keys(netEnv)) sources[key] = 'network';
+    for (const key of Object.keys(profileEnv.env)) sources[key] = 'profile';
+    for (const key of profileEnv.secretKeys) sources[key] = 'secret';
+    for (const key of Object.keys(wrapperEnv)) sources[key] = 'wrapper';
+
+    return { env: { ...baseEnv, ...wrapperEnv }, sources };
+  }
+
+  /**
+   * The effective server environment for display. Profile secrets, and shell
+   * variables whose names look like credentials, are masked.
+   */
+  async previewEnvironment(): Promise<EnvPreviewEntry[]> {
+    let nodeDir: string | null = null;
+    try {
+      nodeDir = path.dirname(this.getPaths().nodePath);
+    } catch {
+      // Paths not configured yet; show the environment without the PATH prefix
+    }
+
+    const profile = this.getProfile();
+    const { env, sources } = await this.buildEnvironment(nodeDir, profile.port ?? profile.lastPort);
+
+    return Object.keys(env).sort().map(key => {
+      const source = sources[key];
+      // Proxy URLs can carry a password
+      const masked = source === 'secret' || (source === 'shell' && isSensitiveKey(key))
+        || (source === 'network' && /\/\/[^/@]+@/.test(env[key] || ''));
+      return { key, value: masked ? '********' : env[key] || '', source, masked };
+    });
+  }
+
+  async startServer(port?: number): Promise<string> {
+    const profile = this.getProfile();
+    const abort = new AbortController();
+    this.startup = { abort, startedAt: Date.now(), steps: [], lastLine: null };
+
+    try {
+      return profile.mode === 'remote'
+        ? await this.connectRemote(profile, abort.signal)
+        : await this.spawnServer(profile, abort.signal, port);
+    } finally {
+      this.startup = null;
+    }
+  }
+
+  private async spawnServer(profile: Profile, signal: AbortSignal, port?: number): Promise<string> {
+    // Captured once per app run; the first launch waits on the login shell
+    this.reportProgress('shell-env');
+    await this.shellEnvironment.get();
+    throwIfCancelled(signal);
+
+    // Get configured paths
+    this.reportProgress('node');
+    const { nodePath, npxPath } = this.getPaths();
+    const nodeDir = path.dirname(nodePath);
+    const cwd = resolveWorkingDirectory(profile.cwd);
+    const cwdProblem = checkWorkingDirectory(cwd);
+    if (cwdProblem) {
+      throw new Error(`Working directory problem. ${cwdProblem}`);
+    }
+    const { env } = await this.buildEnvironment(nodeDir, port);
+
+    const versionSpec = parseVersionSpec(profile.vkVersion);
+    if (!versionSpec) {
+      throw new Error(`Invalid vibe-kanban version: ${profile.vkVersion}`);
+    }
+
+    // Install (or reuse) the requested version before the startup clock starts
+    this.reportProgress('install');
+    let installed;
+    try {
+      installed = await this.packageCache.resolve(versionSpec, nodePath, this.getNpmPath(npxPath), env, {
+        signal,
+        onOutput: output => this.reportProgress(null, output),
+      });
+    } catch (error) {
+      throwIfCancelled(signal);
+      this.logManager.append('system', `Failed to install vibe-kanban: ${error instanceof Error ? error.message : error}\n`);
+      throw error;
+    }
+    // "latest" falls back to a cached version when the lookup is cancelled
+    throwIfCancelled(signal);
+    console.log(`Using vibe-kanban ${installed.version} from ${installed.dir}`);
+    this.logManager.append('system', `Starting vibe-kanban ${installed.version}${port ? ` on port ${port}` : ''}\n`);
+
+    this.serverUrl = null;
+    this.version = installed.version;
+    this.stopping = false;
+
     return new Promise((resolve, reject) => {
+      let stderrOutput = '';
+      let discoveredUrl: string | null = null;
+
       const timeout = setTimeout(() => {
         this.killServer();
-        reject(new Error('Server startup timeout. Please check your internet connection and try again.'));
+        reject(new ServerError('timeout', discoveredUrl
+          ? `Server startup timeout. The server printed ${discoveredUrl} but never answered health checks.`
+          : 'Server startup timeout. The server did not report a URL in time.'));
       }, this.STARTUP_TIMEOUT);
 
-      let stderrOutput = '';
+      signal.addEventListener('abort', () => {
+        clearTimeout(timeout);
+        this.killServer();
+        reject(new Error(STARTUP_CANCELLED));
+      }, { once: true });
+
+      // Tail of each stream, so a URL split across two chunks is still found
+      const recentOutput: Record<LogStream, string> = { stdout: '', stderr: '', system: '' };
+
+      // Once a URL is printed, wait until it actually answers before calling the server ready
+      const onUrlDiscovered = (url: string) => {
+        discoveredUrl = url;
+        const healthUrl = new URL(profile.healthPath || '/', url).toString();
+        const monitor = new HealthMonitor(healthUrl);
+        this.healthMonitor = monitor;
+        this.logManager.append('system', `Server printed ${url}, waiting for ${healthUrl} to respond\n`);
+        this.reportProgress('health');
+
+        monitor.waitUntilReady().then(() => {
+          clearTimeout(timeout);
+          this.serverUrl = url;
+          this.rememberPort(url);
+          this.watchHealth(monitor);
+          resolve(url);
+        }).catch(() => {
+          // Cancelled because the process exited or startup timed out; handled there
+        });
+      };
 
-      // Spawn via shell to ensure proper environment setup
-      const { shell, args } = this.getShellCommand();
-      const command = `"${npxPath}" vibe-kanban@latest`;
+      const checkForUrl = (stream: LogStream, output: string) => {
+        recentOutput[stream] = (recentOutput[stream] + output).slice(-1024);
+        if (discoveredUrl) {
+          return;
+        }
+
+        const match = recentOutput[stream].match(this.URL_REGEX);
+        if (match) {
+          // Replace 0.0.0.0 with localhost for the browser
+          onUrlDiscovered(match[0].replace('0.0.0.0', 'localhost'));
+        }
+      };
 
-      this.serverProcess = spawn(shell, [...args, command], {
+      // Run the cached package's bin script directly with the configured node
+      this.reportProgress('spawn');
+      this.serverProcess = spawn(nodePath, [installed.binPath], {
         stdio: ['ignore', 'pipe', 'pipe'],
-        detached: false,
+        // Own process group on macOS/Linux, so shutdown can signal exactly our tree
+        detached: process.platform !== 'win32',
         env,
-        cwd: homeDir,
+        cwd,
       });
 
+      if (this.serverProcess.pid) {
+        this.processTree = new ProcessTree(this.serverProcess.pid);
+        this.processTree.startTracking();
+      }
+      this.reportProgress('url');
+
       this.serverProcess.stdout?.on('data', (data: Buffer) => {
         const output = data.toString();
         console.log('[vibe-kanban]', output);
-
-        // Look for URL in output
-        const match = output.match(this.URL_REGEX);
-        if (match && !this.serverUrl) {
-          this.serverUrl = match[0];
-          // Replace 0.0.0.0 with localhost for the browser
-          if (this.serverUrl.includes('0.0.0.0')) {
-            this.serverUrl = this.serverUrl.replace('0.0.0.0', 'localhost');
-          }
-          clearTimeout(timeout);
-          resolve(this.serverUrl);
-        }
+        this.logManager.append('stdout', output);
+        this.reportProgress(null, output);
+        checkForUrl('stdout', output);
       });
 
       this.serverProcess.stderr?.on('data', (data: Buffer) => {
         const output = data.toString();
         stderrOutput += output;
         console.error('[vibe-kanban error]', output);
+        this.logManager.append('stderr', output);
+        this.reportProgress(null, output);
 
         // Also check stderr for URL (some tools output there)
-        const match = output.match(this.URL_REGEX);
-        if (match && !this.serverUrl) {
-          this.serverUrl = match[0];
-          if (this.serverUrl.includes('0.0.0.0')) {
-            this.serverUrl = this.serverUrl.replace('0.0.0.0', 'localhost');
-          }
-          clearTimeout(timeout);
-          resolve(this.serverUrl);
-        }
+        checkForUrl('stderr', output);
       });
 
       this.serverProcess.on('error', (err) => {
         clearTimeout(timeout);
-        reject(new Error(`Failed to start server: ${err.message}`));
+        // A missing node binary means the configured paths are stale
+        const message = `Failed to start server: ${err.message}`;
+        reject((err as NodeJS.ErrnoException).code === 'ENOENT'
+          ? new ServerError('paths-not-configured', message)
+          : classifyError(new Error(message)));
       });
 
-      this.serverProcess.on('exit', (code) => {
-        if (!this.serverUrl) {
-          clearTimeout(timeout);
+      this.serverProcess.on('exit', (code, signal) => {
+        this.stopHealthMonitor();
+        this.logManager.flush();
+        this.logManager.append('system', `Server exited (code ${code}, signal ${signal})\n`);
+
+        // A crash can leave agent processes behind; clean up what we tracked
+        if (!this.stopping) {
+          this.reapProcessTree().catch((error) => {
+            this.logManager.append('system', `Failed to clean up server processes: ${error instanceof Error ? error.message : error}\n`);
+          });
+        }
 
-          // Provide better error messages for common issues
-          let errorMessage = `Server exited with code ${code} before becoming ready`;
+        if (this.serverUrl) {
+          // The server had been ready, so this is a shutdown or a crash
+          const expected = this.stopping;
+          this.serverProcess = null;
+          this.serverUrl = null;
+          this.version = null;
+          this.emit('exit', { code, signal, expected } as ServerExitInfo);
+          return;
+        }
+
+        clearTimeout(timeout);
 
-          // Include stderr for debugging
-          if (stderrOutput) {
-            errorMessage += `\n\nError output:\n${stderrOutput.slice(0, 500)}`;
-          }
+        // Provide better error messages for common issues
+        let errorMessage = `Server exited with code ${code} before becoming ready`;
 
-          if (stderrOutput.includes('AddrInUse') || stderrOutput.includes('Address already in use')) {
-            errorMessage = 'Port is already in use.\n\nAnother instance of vibe-kanban may be running.\nPlease close it and try again.';
-          } else if (stderrOutput.includes('ENOENT') || stderrOutput.includes('not found')) {
-            errorMessage = 'Failed to find vibe-kanban.\n\nPlease ensure you have internet access.';
-          }
+        // Include stderr for debugging
+        if (stderrOutput) {
+          errorMessage += `\n\nError output:\n${stderrOutput.slice(0, 500)}`;
+        }
 
-          reject(new Error(errorMessage));
+        const { kind } = classifyError(new Error(stderrOutput));
+        if (kind === 'port-busy') {
+          errorMessage = 'Port is already in use.\n\nAnother instance of vibe-kanban may be running.\nPlease close it and try again.';
+        } else if (kind === 'unknown' && (stderrOutput.includes('ENOENT') || stderrOutput.includes('not found'))) {
+          errorMessage = `Failed to run vibe-kanban ${installed.version}.\n\nThe cached install may be damaged. Try selecting a different version.`;
         }
+
+        reject(new ServerError(kind, errorMessage));
         this.serverProcess = null;
       });
     });
   }
 
-  private killProcessTree(pid: number): void {
-    if (process.platform === 'win32') {
-      // Windows: use taskkill with /T to kill process tree
-      try {
-        execSync(`taskkill /pid ${pid} /T /F`, { stdio: 'pipe' });
-      } catch {
-        // Process may already be dead
-      }
-    } else {
-      // macOS/Linux: kill the process group
-      // First try to find and kill child processes
-      try {
-        // Find all child processes using pgrep
-        const children = execSync(`pgrep -P ${pid}`, { stdio: 'pipe', encoding: 'utf-8' })
-          .trim()
-          .split('\n')
-          .filter(Boolean);
-
-        // Kill children first
-        for (const childPid of children) {
-          try {
-            process.kill(parseInt(childPid, 10), 'SIGTERM');
-          } catch {
-            // Child may already be dead
-          }
-        }
-      } catch {
-        // No children or pgrep failed
-      }
+  /**
+   * Terminate everything left in the tracked tree and report any process
+   * that survived SIGKILL.
+   */
+  private async reapProcessTree(): Promise<void> {
+    const tree = this.processTree;
+    this.processTree = null;
+    if (!tree) {
+      return;
+    }
 
-      // Also try pkill to kill any vibe-kanban processes we spawned
-      try {
-        execSync('pkill -f "vibe-kanban"', { stdio: 'pipe' });
-      } catch {
-        // No matching processes
-      }
+    const strays = await tree.terminate(this.SHUTDOWN_GRACE);
+    for (const stray of strays) {
+      const message = `Stray server process still running: pid ${stray.pid} (${stray.command})`;
+      console.warn(message);
+      this.logManager.append('system', `${message}\n`);
     }
   }
 
-  async killServer(): Promise<void> {
-    return new Promise((resolve) => {
-      if (!this.serverProcess || this.serverProcess.killed) {
-        this.serverProcess = null;
-        this.serverUrl = null;
-        resolve();
-        return;
-      }
+  /**
+   * Take over a vibe-kanban server started by a previous session of this app
+   * that is still running. It is health-checked and stopped like our own.
+   */
+  async adoptServer(url: string, pid: number): Promise<string> {
+    const profile = this.getProfile();
+    const healthUrl = new URL(profile.healthPath || '/', url).toString();
+    this.logManager.append('system', `Attaching to the running server at ${url} (pid ${pid})\n`);
+
+    const probe = await probeUrl(healthUrl, this.ATTACH_PROBE_TIMEOUT, this.configManager.getNetworkSettings());
+    if (!probe.ok) {
+      throw new Error(`The server at ${url} is not responding (${probe.error}).`);
+    }
 
-      const pid = this.serverProcess.pid;
+    this.processTree = new ProcessTree(pid);
+    this.processTree.startTracking();
+    this.attachTo(url, healthUrl);
+    this.rememberPort(url);
+    return url;
+  }
 
-      const forceKillTimeout = setTimeout(() => {
-        // Force kill if graceful shutdown fails
-        console.log('Force killing server process tree');
-        if (pid) {
-          this.killProcessTree(pid);
-        }
-        this.serverProcess = null;
-        this.serverUrl = null;
-        resolve();
-      }, 3000); // 3 second grace period
-
-      this.serverProcess.once('exit', () => {
-        clearTimeout(forceKillTimeout);
-        // Also clean up any orphaned children
-        if (pid) {
-          this.killProcessTree(pid);
-        }
-        this.serverProcess = null;
-        this.serverUrl = null;
-        resolve();
-      });
+  /**
+   * Use a vibe-kanban server running elsewhere (another machine, a container).
+   * Nothing is spawned; the URL is health-checked like a local server.
+   */
+  private async connectRemote(profile: Profile, signal: AbortSignal): Promise<string> {
+    const url = profile.remoteUrl ? normalizeRemoteUrl(profile.remoteUrl) : null;
+    if (!url) {
+      throw new Error(`Invalid server URL: ${profile.remoteUrl || '(none)'}`);
+    }
 
-      // Send graceful shutdown signal to the process tree
-      if (pid) {
-        console.log('Sending SIGTERM to server process tree...');
-        this.killProcessTree(pid);
-      }
-    });
+    const healthUrl = new URL(profile.healthPath || '/', url).toString();
+    this.logManager.append('system', `Connecting to ${url}\n`);
+    this.reportProgress('health');
+
+    const probe = await probeUrl(healthUrl, this.ATTACH_PROBE_TIMEOUT, this.configManager.getNetworkSettings());
+    throwIfCancelled(signal);
+    if (!probe.ok) {
+      this.logManager.append('system', `Could not reach ${healthUrl}: ${probe.error}\n`);
+      throw new Error(`Could not connect to ${url}.\n\n${probe.error}`);
+    }
+
+    this.logManager.append('system', `Connected to ${url}\n`);
+    this.attachTo(url, healthUrl);
+    return url;
+  }
+
+  private attachTo(url: string, healthUrl: string): void {
+    this.attached = true;
+    this.stopping = false;
+    this.serverUrl = url;
+    this.healthMonitor = new HealthMonitor(healthUrl, this.configManager.getNetworkSettings());
+    this.watchHealth(this.healthMonitor);
+  }
+
+  async killServer(): Promise<void> {
+    this.stopping = true;
+    this.stopHealthMonitor();
+
+    if (this.serverProcess || this.processTree) {
+      console.log('Stopping server process tree...');
+      await this.reapProcessTree();
+    }
+
+    this.serverProcess = null;
+    this.serverUrl = null;
+    this.version = null;
+    this.attached = false;
   }
 }
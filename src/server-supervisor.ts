@@ -0,0 +1,197 @@
+import { EventEmitter } from 'events';
+import { ServerManager, ServerExitInfo } from './server-manager';
+import { ConfigManager } from './config-manager';
+import type { HealthState } from './health-monitor';
+
+export type RestartPolicy = 'never' | 'on-failure' | 'always';
+
+export const RESTART_POLICIES: RestartPolicy[] = ['never', 'on-failure', 'always'];
+
+/**
+ * Watches a ServerManager after startup and restarts the server when it dies
+ * or stops answering health checks. For remote profiles a restart is a
+ * reconnect, which is retried for as long as the profile stays active.
+ *
+ * Events:
+ * - 'restarting' (attempt: number, delayMs: number) - a restart has been scheduled
+ * - 'ready' (url: string) - a restarted server reported its URL
+ * - 'gave-up' (message: string) - the crash loop limit was hit, or the policy forbids restarts
+ */
+export class ServerSupervisor extends EventEmitter {
+  private serverManager: ServerManager;
+  private configManager: ConfigManager;
+  private port: number | undefined;
+  private active = false;
+  private restartTimer: NodeJS.Timeout | null = null;
+  private crashTimes: number[] = [];
+  // Counted separately for remote profiles, which never give up
+  private reconnectAttempts = 0;
+  private readonly BASE_DELAY = 1000; // 1 second
+  private readonly MAX_DELAY = 30000; // 30 seconds
+  private readonly MAX_CRASHES = 5;
+  private readonly CRASH_WINDOW = 5 * 60 * 1000; // 5 minutes
+
+  constructor(serverManager: ServerManager, configManager: ConfigManager) {
+    super();
+    this.serverManager = serverManager;
+    this.configManager = configManager;
+    this.serverManager.on('exit', (info: ServerExitInfo) => this.handleExit(info));
+    this.serverManager.on('health', (state: HealthState) => {
+      if (state === 'down') {
+        this.handleHang();
+      }
+    });
+  }
+
+  /**
+   * Start the server and supervise it until stop() is called.
+   */
+  async start(port?: number): Promise<string> {
+    this.cancelRestart();
+    this.crashTimes = [];
+    this.reconnectAttempts = 0;
+
+    const url = await this.serverManager.startServer(port);
+
+    // Restarts reuse the bound port so the window can reload the same URL
+    this.port = port ?? (parseInt(new URL(url).port, 10) || undefined);
+    this.active = true;
+    return url;
+  }
+
+  /**
+   * Supervise a server that is already running instead of starting one.
+   */
+  async adopt(url: string, pid: number): Promise<string> {
+    this.cancelRestart();
+    this.crashTimes = [];
+    this.reconnectAttempts = 0;
+
+    await this.serverManager.adoptServer(url, pid);
+
+    this.port = parseInt(new URL(url).port, 10) || undefined;
+    this.active = true;
+    return url;
+  }
+
+  async stop(): Promise<void> {
+    this.active = false;
+    this.cancelRestart();
+    await this.serverManager.killServer();
+  }
+
+  /**
+   * Stop and start again on the same port, e.g. from the tray menu.
+   */
+  async restart(): Promise<string> {
+    const port = this.port;
+    await this.stop();
+    return this.start(port);
+  }
+
+  isRestarting(): boolean {
+    return this.restartTimer !== null;
+  }
+
+  isRemote(): boolean {
+    return this.configManager.getProfile(this.serverManager.getProfileId())?.mode === 'remote';
+  }
+
+  private cancelRestart(): void {
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+  }
+
+  private shouldRestart(info: ServerExitInfo): boolean {
+    const profile = this.configManager.getProfile(this.serverManager.getProfileId());
+    switch (profile?.restartPolicy || 'on-failure') {
+      case 'always':
+        return true;
+      case 'on-failure':
+        return info.code !== 0 || info.signal !== null;
+      default:
+        return false;
+    }
+  }
+
+  private handleExit(info: ServerExitInfo): void {
+    if (!this.active || info.expected) {
+      return;
+    }
+
+    console.log(`Server exited unexpectedly (code ${info.code}, signal ${info.signal})`);
+
+    if (!this.shouldRestart(info)) {
+      this.active = false;
+      this.emit('gave-up', `The vibe-kanban server stopped (exit code ${info.code}).`);
+      return;
+    }
+
+    this.scheduleRestart();
+  }
+
+  /**
+   * The process is alive but no longer answering. A hang counts as a failure,
+   * so it is restarted under both the on-failure and always policies.
+   */
+  private async handleHang(): Promise<void> {
+    if (!this.active || this.restartTimer) {
+      return;
+    }
+
+    console.log('Server stopped responding to health checks');
+
+    if (!this.isRemote() && this.configManager.getProfile(this.serverManager.getProfileId())?.restartPolicy === 'never') {
+      return;
+    }
+
+    // Killing through killServer marks the exit as expected, so handleExit won't double-schedule
+    await this.serverManager.killServer();
+    if (this.active) {
+      this.scheduleRestart();
+    }
+  }
+
+  private scheduleRestart(): void {
+    const now = Date.now();
+    this.crashTimes = this.crashTimes.filter(time => now - time < this.CRASH_WINDOW);
+    this.crashTimes.push(now);
+
+    // A remote server being down isn't a crash loop we caused, so keep trying
+    if (this.crashTimes.length > this.MAX_CRASHES && !this.isRemote()) {
+      this.active = false;
+      this.emit(
+        'gave-up',
+        `The vibe-kanban server crashed ${this.crashTimes.length} times in ${this.CRASH_WINDOW / 60000} minutes.\n\n` +
+        'Automatic restarts have been stopped.'
+      );
+      return;
+    }
+
+    const attempt = this.isRemote() ? ++this.reconnectAttempts : this.crashTimes.length;
+    const delayMs = Math.min(this.BASE_DELAY * 2 ** (attempt - 1), this.MAX_DELAY);
+    console.log(`Restarting server in ${delayMs}ms (attempt ${attempt})`);
+    this.emit('restarting', attempt, delayMs);
+
+    this.restartTimer = setTimeout(async () => {
+      this.restartTimer = null;
+      try {
+        const url = await this.serverManager.startServer(this.port);
+        if (this.active) {
+          this.reconnectAttempts = 0;
+          this.emit('ready', url);
+        } else {
+          // stop() was called while the restart was still starting up
+          await this.serverManager.killServer();
+        }
+      } catch (error) {
+        console.error('Server restart failed:', error);
+        if (this.active) {
+          this.scheduleRestart();
+        }
+      }
+    }, delayMs);
+  }
+}
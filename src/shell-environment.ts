@@ -0,0 +1,82 @@
+import { spawn } from 'child_process';
+
+// Variable names that usually hold credentials
+const SENSITIVE_KEY_REGEX = /(TOKEN|SECRET|PASSWORD|PASSWD|API_?KEY|PRIVATE|CREDENTIAL|AUTH)/i;
+
+export function isSensitiveKey(key: string): boolean {
+  return SENSITIVE_KEY_REGEX.test(key);
+}
+
+/**
+ * The user's login shell environment, captured once and shared by everything
+ * that needs their PATH (server launches, node discovery).
+ */
+export class ShellEnvironment {
+  private cachedEnv: NodeJS.ProcessEnv | null = null;
+
+  /**
+   * Capture the user's shell environment by spawning a login shell.
+   * GUI apps on macOS don't inherit the terminal environment, so we need to
+   * explicitly load the user's shell configuration to get their PATH, etc.
+   */
+  async get(): Promise<NodeJS.ProcessEnv> {
+    // Return cached environment if available
+    if (this.cachedEnv) {
+      return this.cachedEnv;
+    }
+
+    return new Promise((resolve) => {
+      // Use the user's preferred shell, or fall back to common shells
+      const shell = process.env.SHELL || '/bin/zsh';
+
+      // -i: interactive (sources .bashrc/.zshrc)
+      // -l: login shell (sources .profile, .bash_profile, .zprofile)
+      // -c: run command
+      const child = spawn(shell, ['-ilc', 'env'], {
+        stdio: ['ignore', 'pipe', 'pipe'],
+      });
+
+      let stdout = '';
+      const timeout = setTimeout(() => {
+        child.kill();
+        console.log('Shell environment capture timed out, using process.env');
+        resolve(process.env);
+      }, 5000);
+
+      child.stdout?.on('data', (data: Buffer) => {
+        stdout += data.toString();
+      });
+
+      child.on('error', (err) => {
+        clearTimeout(timeout);
+        console.log(`Failed to get shell environment: ${err.message}, using process.env`);
+        resolve(process.env);
+      });
+
+      child.on('close', (code) => {
+        clearTimeout(timeout);
+
+        if (code !== 0) {
+          console.log(`Shell exited with code ${code}, using process.env`);
+          resolve(process.env);
+          return;
+        }
+
+        const env: NodeJS.ProcessEnv = {};
+        for (const line of stdout.split('\n')) {
+          const idx = line.indexOf('=');
+          if (idx > 0) {
+            const key = line.slice(0, idx);
+            const value = line.slice(idx + 1);
+            env[key] = value;
+          }
+        }
+
+        // Cache the result for future calls
+        this.cachedEnv = env;
+        console.log('Successfully captured shell environment');
+        resolve(env);
+      });
+    });
+  }
+}
@@ -0,0 +1,202 @@
+import { EventEmitter } from 'events';
+import type http from 'http';
+import type { NetworkSettings } from './config-manager';
+import { connectFor, requestOver } from './connectivity-check';
+
+export type TaskEventType = 'task-completed' | 'task-failed' | 'task-needs-review';
+
+export const TASK_EVENT_TYPES: TaskEventType[] = ['task-completed', 'task-failed', 'task-needs-review'];
+
+export interface TaskEvent {
+  type: TaskEventType;
+  title: string;
+  projectName?: string;
+  // Board route of the task, opened when the notification is clicked
+  route?: string;
+}
+
+// The fields of vibe-kanban's project and task API responses we read
+interface ApiProject {
+  id: string;
+  name: string;
+}
+
+interface ApiTask {
+  id: string;
+  project_id: string;
+  title: string;
+  status: string;
+  has_in_progress_attempt?: boolean;
+  last_attempt_failed?: boolean;
+}
+
+interface TaskSnapshot {
+  status: string;
+  failed: boolean;
+}
+
+// Through the proxy and CA bundle when the server is remote, like the health probes
+async function getJson(url: URL, network: NetworkSettings, timeoutMs: number): Promise<unknown> {
+  const abort = new AbortController();
+  let request: http.ClientRequest | null = null;
+  const timer = setTimeout(() => {
+    abort.abort();
+    request?.destroy(new Error(`No response within ${timeoutMs}ms`));
+  }, timeoutMs);
+
+  try {
+    const { socket, proxy } = await connectFor(url, network, abort.signal);
+    return await new Promise((resolve, reject) => {
+      request = requestOver(socket, url, proxy, { Accept: 'application/json' }, (response) => {
+        let body = '';
+        response.setEncoding('utf-8');
+        response.on('data', (chunk: string) => {
+          body += chunk;
+        });
+        response.on('end', () => {
+          socket.destroy();
+          if ((response.statusCode ?? 0) >= 400) {
+            reject(new Error(`HTTP ${response.statusCode}`));
+            return;
+          }
+          try {
+            resolve(JSON.parse(body));
+          } catch {
+            reject(new Error('Response is not JSON'));
+          }
+        });
+        response.on('error', reject);
+      });
+      request.on('error', reject);
+      request.end();
+    });
+  } catch (error) {
+    if (abort.signal.aborted) {
+      throw new Error(`No response within ${timeoutMs}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// vibe-kanban wraps responses as { success, data }
+function unwrap<T>(response: unknown): T[] {
+  const data = (response as { data?: unknown })?.data ?? response;
+  return Array.isArray(data) ? data as T[] : [];
+}
+
+/**
+ * Polls a vibe-kanban server's task API and reports tasks that finished,
+ * failed or moved to review since the previous poll. The first poll after the
+ * server (or its URL) changes only records a baseline.
+ *
+ * Events:
+ * - 'event' (event: TaskEvent)
+ */
+export class TaskWatcher extends EventEmitter {
+  private getUrl: () => string | null;
+  private getNetwork: () => NetworkSettings;
+  private timer: NodeJS.Timeout | null = null;
+  private baseUrl: string | null = null;
+  private tasks = new Map<string, TaskSnapshot>();
+  // Whether tasks holds a poll of the current server yet
+  private baselined = false;
+  private lastError: string | null = null;
+  private readonly POLL_INTERVAL = 10000; // 10 seconds
+  private readonly REQUEST_TIMEOUT = 5000; // 5 seconds
+
+  constructor(getUrl: () => string | null, getNetwork: () => NetworkSettings) {
+    super();
+    this.getUrl = getUrl;
+    this.getNetwork = getNetwork;
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    const poll = async () => {
+      await this.poll();
+      if (this.timer) {
+        this.timer = setTimeout(poll, this.POLL_INTERVAL);
+      }
+    };
+    this.timer = setTimeout(poll, this.POLL_INTERVAL);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async poll(): Promise<void> {
+    const url = this.getUrl();
+    if (url !== this.baseUrl) {
+      this.baseUrl = url;
+      this.tasks.clear();
+      this.baselined = false;
+    }
+    if (!url) {
+      return;
+    }
+
+    const network = this.getNetwork();
+    let tasks: Array<ApiTask & { projectName: string }>;
+    try {
+      const projects = unwrap<ApiProject>(await getJson(new URL('/api/projects', url), network, this.REQUEST_TIMEOUT));
+      tasks = [];
+      for (const project of projects) {
+        const projectTasks = unwrap<ApiTask>(await getJson(
+          new URL(`/api/tasks?project_id=${encodeURIComponent(project.id)}`, url),
+          network,
+          this.REQUEST_TIMEOUT,
+        ));
+        tasks.push(...projectTasks.map(task => ({ ...task, projectName: project.name })));
+      }
+      this.lastError = null;
+    } catch (error) {
+      // Log each distinct failure once; the server may be restarting
+      const message = error instanceof Error ? error.message : String(error);
+      if (message !== this.lastError) {
+        console.warn('Task poll failed:', message);
+        this.lastError = message;
+      }
+      return;
+    }
+
+    if (this.getUrl() !== url) {
+      // Server restarted on another URL while polling
+      return;
+    }
+
+    const seen = new Map<string, TaskSnapshot>();
+    for (const task of tasks) {
+      const current: TaskSnapshot = {
+        status: task.status,
+        failed: Boolean(task.last_attempt_failed) && !task.has_in_progress_attempt,
+      };
+      seen.set(task.id, current);
+
+      const previous = this.tasks.get(task.id);
+      if (!this.baselined || !previous) {
+        continue;
+      }
+
+      const event = { title: task.title, projectName: task.projectName, route: `/projects/${task.project_id}/tasks/${task.id}` };
+      if (current.failed && !previous.failed) {
+        this.emit('event', { type: 'task-failed', ...event } as TaskEvent);
+      } else if (current.status !== previous.status) {
+        if (current.status === 'done') {
+          this.emit('event', { type: 'task-completed', ...event } as TaskEvent);
+        } else if (current.status === 'inreview') {
+          this.emit('event', { type: 'task-needs-review', ...event } as TaskEvent);
+        }
+      }
+    }
+    this.tasks = seen;
+    this.baselined = true;
+  }
+}
@@ -0,0 +1,114 @@
+import { app, Menu, MenuItemConstructorOptions, nativeImage, Tray } from 'electron';
+import path from 'path';
+import type { HealthState } from './health-monitor';
+
+export interface TrayProfileState {
+  id: string;
+  name: string;
+  running: boolean;
+  url: string | null;
+  health: HealthState | null;
+}
+
+/**
+ * What the tray menu can ask the app to do. The tray only renders state,
+ * the app owns the servers and windows.
+ */
+export interface TrayActions {
+  getProfiles(): TrayProfileState[];
+  start(profileId: string): void;
+  stop(profileId: string): void;
+  restart(profileId: string): void;
+  openWindow(profileId: string): void;
+  openInBrowser(profileId: string): void;
+  quit(): void;
+}
+
+export class TrayManager {
+  private tray: Tray | null = null;
+  private actions: TrayActions;
+
+  constructor(actions: TrayActions) {
+    this.actions = actions;
+  }
+
+  create(): void {
+    // Get icon path - extraResource files are in Resources folder when packaged
+    const iconPath = app.isPackaged
+      ? path.join(process.resourcesPath, 'assets', 'icon.png')
+      : path.join(app.getAppPath(), 'assets', 'icon.png');
+
+    const icon = nativeImage.createFromPath(iconPath).resize({ width: 16, height: 16 });
+    this.tray = new Tray(icon);
+    this.tray.setToolTip('VK Wrapper');
+    this.update();
+  }
+
+  /**
+   * Rebuild the menu from the current server state. Call whenever a server
+   * starts, stops, restarts or changes health.
+   */
+  update(): void {
+    if (!this.tray || this.tray.isDestroyed()) {
+      return;
+    }
+
+    const profiles = this.actions.getProfiles();
+    const template: MenuItemConstructorOptions[] = [];
+
+    for (const profile of profiles) {
+      if (profiles.length > 1) {
+        template.push({ label: profile.name, enabled: false });
+      }
+      template.push(...this.profileItems(profile), { type: 'separator' });
+    }
+
+    template.push({ label: 'Quit VK Wrapper', click: () => this.actions.quit() });
+
+    this.tray.setContextMenu(Menu.buildFromTemplate(template));
+
+    const runningCount = profiles.filter(profile => profile.running).length;
+    this.tray.setToolTip(runningCount > 0 ? `VK Wrapper - ${runningCount} running` : 'VK Wrapper - stopped');
+  }
+
+  destroy(): void {
+    this.tray?.destroy();
+    this.tray = null;
+  }
+
+  private profileItems(profile: TrayProfileState): MenuItemConstructorOptions[] {
+    const port = profile.url ? new URL(profile.url).port : null;
+    const status = profile.running
+      ? `Running${profile.health && profile.health !== 'ready' ? ` (${profile.health})` : ''}`
+      : 'Stopped';
+
+    return [
+      { label: status, enabled: false },
+      ...(profile.url ? [{ label: `${profile.url} (port ${port})`, enabled: false }] : []),
+      {
+        label: 'Start',
+        enabled: !profile.running,
+        click: () => this.actions.start(profile.id),
+      },
+      {
+        label: 'Stop',
+        enabled: profile.running,
+        click: () => this.actions.stop(profile.id),
+      },
+      {
+        label: 'Restart',
+        enabled: profile.running,
+        click: () => this.actions.restart(profile.id),
+      },
+      {
+        label: 'Open Board Window',
+        click: () => this.actions.openWindow(profile.id),
+      },
+      {
+        label: 'Open in Browser',
+        enabled: profile.url !== null,
+        click: () => this.actions.openInBrowser(profile.id),
+      },
+    ];
+  }
+}
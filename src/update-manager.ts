@@ -0,0 +1,334 @@
+import { app, autoUpdater, net } from 'electron';
+import { EventEmitter } from 'events';
+import { execFile } from 'child_process';
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { pathToFileURL } from 'url';
+import path from 'path';
+import fs from 'fs';
+import { compareVersions } from './package-cache';
+
+// The releases forge.config.ts publishes to
+const DEFAULT_FEED_URL = 'https://api.github.com/repos/MaxEvan/vk-wrapper/releases/latest';
+
+// The parts of a GitHub release (GET /repos/:owner/:repo/releases/latest) we use.
+// A fake feed only needs to serve JSON of this shape
+interface ReleaseAsset {
+  name: string;
+  browser_download_url: string;
+  // "sha256:<hex>", published by GitHub for every asset
+  digest?: string | null;
+}
+
+interface Release {
+  tag_name: string;
+  body?: string | null;
+  html_url: string;
+  published_at?: string;
+  assets: ReleaseAsset[];
+}
+
+export interface UpdateInfo {
+  version: string;
+  notes: string;
+  // Release page, for platforms that update by hand
+  url: string;
+}
+
+export type UpdateState =
+  | { status: 'idle' }
+  | { status: 'checking' }
+  | { status: 'up-to-date' }
+  // Newer version exists but can't be installed in place (Linux, unpackaged,
+  // unsigned macOS builds)
+  | { status: 'available'; update: UpdateInfo }
+  | { status: 'downloading'; update: UpdateInfo }
+  | { status: 'ready'; update: UpdateInfo }
+  | { status: 'error'; message: string };
+
+/**
+ * Checks the GitHub releases feed for a newer wrapper and installs it.
+ *
+ * On Windows (Squirrel) and signed macOS builds the update is downloaded
+ * here, checked against the SHA-256 digest from the feed, and handed to
+ * Electron's autoUpdater from the local copy. Everywhere else a newer release
+ * is only reported. Set VK_WRAPPER_UPDATE_FEED to point at another feed, e.g. a local
+ * server for testing; it also enables checks in unpackaged builds.
+ *
+ * Events:
+ * - 'state' (state: UpdateState)
+ */
+export class UpdateManager extends EventEmitter {
+  private updatesDir: string;
+  private feedUrl: string;
+  private state: UpdateState = { status: 'idle' };
+  private timer: NodeJS.Timeout | null = null;
+  private macSigned: Promise<boolean> | null = null;
+  private readonly SIGNATURE_CHECK_TIMEOUT = 10000; // 10 seconds
+  private readonly FIRST_CHECK_DELAY = 30 * 1000; // 30 seconds after startup
+  private readonly CHECK_INTERVAL = 6 * 60 * 60 * 1000; // 6 hours
+
+  constructor(updatesDir: string) {
+    super();
+    this.updatesDir = updatesDir;
+    this.feedUrl = process.env.VK_WRAPPER_UPDATE_FEED || DEFAULT_FEED_URL;
+  }
+
+  isEnabled(): boolean {
+    return app.isPackaged || Boolean(process.env.VK_WRAPPER_UPDATE_FEED);
+  }
+
+  /**
+   * Whether updates can be installed in place. Squirrel.Windows only works for
+   * installs made by its Setup.exe, which leaves Update.exe next to the app.
+   * Squirrel.Mac only works for apps signed with a Developer ID.
+   */
+  async canInstall(): Promise<boolean> {
+    if (!app.isPackaged) {
+      return false;
+    }
+    if (process.platform === 'darwin') {
+      return this.isMacSigned();
+    }
+    if (process.platform === 'win32') {
+      return fs.existsSync(path.join(path.dirname(process.execPath), '..', 'Update.exe'));
+    }
+    return false;
+  }
+
+  /**
+   * Whether the app bundle has a valid Developer ID signature. Unsigned and
+   * ad-hoc signed builds would otherwise only fail once the update has been
+   * downloaded. Checked once per run.
+   */
+  private isMacSigned(): Promise<boolean> {
+    if (!this.macSigned) {
+      // .../VK Wrapper.app/Contents/MacOS/VK Wrapper
+      const bundle = path.resolve(process.execPath, '..', '..', '..');
+      const codesign = (args: string[]) => new Promise<string | null>((resolve) => {
+        execFile('codesign', [...args, bundle], { timeout: this.SIGNATURE_CHECK_TIMEOUT }, (error, _stdout, stderr) => {
+          resolve(error ? null : stderr);
+        });
+      });
+      this.macSigned = (async () => {
+        if (await codesign(['--verify', '--deep', '--strict']) === null) {
+          console.log('App bundle is not validly signed, updates will be downloaded by hand');
+          return false;
+        }
+        // Details go to stderr; ad-hoc signatures have no authority
+        const details = await codesign(['--display', '--verbose=2']);
+        return details !== null && /^Authority=Developer ID Application/m.test(details);
+      })();
+    }
+    return this.macSigned;
+  }
+
+  startPolling(): void {
+    if (!this.isEnabled() || this.timer) {
+      return;
+    }
+    const poll = () => {
+      this.timer = setTimeout(poll, this.CHECK_INTERVAL);
+      this.check().catch(() => {
+        // Reported through the 'error' state
+      });
+    };
+    this.timer = setTimeout(poll, this.FIRST_CHECK_DELAY);
+  }
+
+  stopPolling(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Check the feed, and download and stage a newer version if this platform
+   * can install it. Resolves with the resulting state.
+   */
+  async check(): Promise<UpdateState> {
+    // Already staged, or a check is in flight
+    if (['checking', 'downloading', 'ready'].includes(this.state.status)) {
+      return this.state;
+    }
+
+    this.setState({ status: 'checking' });
+    try {
+      const release = await this.fetchRelease();
+      const version = release.tag_name.replace(/^v/, '');
+      if (compareVersions(version, app.getVersion()) <= 0) {
+        return this.setState({ status: 'up-to-date' });
+      }
+
+      const update: UpdateInfo = { version, notes: release.body || '', url: release.html_url };
+      if (!await this.canInstall()) {
+        return this.setState({ status: 'available', update });
+      }
+
+      this.setState({ status: 'downloading', update });
+      const dir = path.join(this.updatesDir, version);
+      fs.rmSync(dir, { recursive: true, force: true });
+      fs.mkdirSync(dir, { recursive: true });
+
+      if (process.platform === 'darwin') {
+        await this.stageMac(release, update, dir);
+      } else {
+        await this.stageWindows(release, dir);
+      }
+      return this.setState({ status: 'ready', update });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('Update check failed:', message);
+      return this.setState({ status: 'error', message });
+    }
+  }
+
+  /**
+   * Restart into the staged update. The caller stops the servers first.
+   */
+  quitAndInstall(): void {
+    if (this.state.status === 'ready') {
+      autoUpdater.quitAndInstall();
+    }
+  }
+
+  private setState(state: UpdateState): UpdateState {
+    this.state = state;
+    this.emit('state', state);
+    return state;
+  }
+
+  private async fetchRelease(): Promise<Release> {
+    const response = await net.fetch(this.feedUrl, {
+      headers: { Accept: 'application/vnd.github+json', 'User-Agent': `vk-wrapper/${app.getVersion()}` },
+    });
+    if (!response.ok) {
+      throw new Error(`Release feed returned HTTP ${response.status}`);
+    }
+    const release = await response.json() as Release;
+    if (typeof release.tag_name !== 'string' || !Array.isArray(release.assets)) {
+      throw new Error('Release feed returned an unexpected response');
+    }
+    return release;
+  }
+
+  /**
+   * Download an asset into dir, failing unless its SHA-256 matches the feed.
+   */
+  private async download(asset: ReleaseAsset, dir: string): Promise<string> {
+    const expected = asset.digest?.match(/^sha256:([0-9a-f]{64})$/i)?.[1].toLowerCase();
+    if (!expected) {
+      throw new Error(`No SHA-256 digest published for ${asset.name}, refusing to install it`);
+    }
+
+    const response = await net.fetch(asset.browser_download_url);
+    if (!response.ok || !response.body) {
+      throw new Error(`Downloading ${asset.name} failed with HTTP ${response.status}`);
+    }
+
+    const dest = path.join(dir, path.basename(asset.name));
+    const hash = createHash('sha256');
+    const source = Readable.fromWeb(response.body as Parameters<typeof Readable.fromWeb>[0]);
+    source.on('data', (chunk: Buffer) => hash.update(chunk));
+    await pipeline(source, fs.createWriteStream(dest));
+
+    const actual = hash.digest('hex');
+    if (actual !== expected) {
+      fs.rmSync(dest, { force: true });
+      throw new Error(`Checksum mismatch for ${asset.name}`);
+    }
+    return dest;
+  }
+
+  /**
+   * Squirrel.Mac installs from a JSON manifest; write one that points at the
+   * verified zip on disk.
+   */
+  private async stageMac(release: Release, update: UpdateInfo, dir: string): Promise<void> {
+    const asset = release.assets.find(candidate =>
+      candidate.name.endsWith('.zip') && candidate.name.includes(`darwin-${process.arch}`));
+    if (!asset) {
+      throw new Error(`Release ${update.version} has no macOS ${process.arch} build`);
+    }
+
+    const zipPath = await this.download(asset, dir);
+    const manifestPath = path.join(dir, 'releases.json');
+    fs.writeFileSync(manifestPath, JSON.stringify({
+      currentRelease: update.version,
+      releases: [{
+        version: update.version,
+        updateTo: {
+          version: update.version,
+          name: update.version,
+          notes: update.notes,
+          pub_date: release.published_at || new Date().toISOString(),
+          url: pathToFileURL(zipPath).toString(),
+        },
+      }],
+    }, null, 2));
+
+    await this.runAutoUpdater({ url: pathToFileURL(manifestPath).toString(), serverType: 'json' });
+  }
+
+  /**
+   * Squirrel.Windows reads a RELEASES file and the packages it lists from a
+   * directory; download both, verified, and point it at the local copy.
+   */
+  private async stageWindows(release: Release, dir: string): Promise<void> {
+    const findAsset = (name: string) => release.assets.find(candidate => candidate.name === name);
+
+    const releasesAsset = findAsset('RELEASES');
+    if (!releasesAsset) {
+      throw new Error('Release has no Squirrel RELEASES file');
+    }
+    const releasesPath = await this.download(releasesAsset, dir);
+
+    // Lines are "<sha1> <file> <size>"; only full packages are published here
+    const packages = fs.readFileSync(releasesPath, 'utf-8').split(/\r?\n/)
+      .map(line => line.trim().split(/\s+/)[1])
+      .filter((name): name is string => Boolean(name) && name.endsWith('-full.nupkg'));
+    if (packages.length === 0) {
+      throw new Error('RELEASES lists no full package');
+    }
+
+    for (const name of packages) {
+      const asset = findAsset(name);
+      if (!asset) {
+        throw new Error(`Release is missing ${name}`);
+      }
+      await this.download(asset, dir);
+    }
+
+    await this.runAutoUpdater({ url: dir });
+  }
+
+  private runAutoUpdater(options: Electron.FeedURLOptions): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        autoUpdater.removeListener('update-downloaded', onDownloaded);
+        autoUpdater.removeListener('update-not-available', onNotAvailable);
+        autoUpdater.removeListener('error', onError);
+      };
+      const onDownloaded = () => {
+        cleanup();
+        resolve();
+      };
+      const onNotAvailable = () => {
+        cleanup();
+        reject(new Error('The installer found nothing to update'));
+      };
+      const onError = (error: Error) => {
+        cleanup();
+        reject(error);
+      };
+
+      autoUpdater.on('update-downloaded', onDownloaded);
+      autoUpdater.on('update-not-available', onNotAvailable);
+      autoUpdater.on('error', onError);
+      autoUpdater.setFeedURL(options);
+      autoUpdater.checkForUpdates();
+    });
+  }
+}
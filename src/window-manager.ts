@@ -1,24 +1,159 @@
-import { BrowserWindow, shell, app } from 'electron';
+import { BrowserWindow, shell, app, screen, Rectangle, WebContents } from 'electron';
+import { pathToFileURL } from 'url';
 import path from 'path';
+import type { HealthState } from './health-monitor';
+import type { StartupProgress } from './server-manager';
+import type { ServerError } from './server-error';
+import { BoardPermission, ConfigManager, WindowState } from './config-manager';
 
 // Vite injects these constants
 declare const MAIN_WINDOW_VITE_DEV_SERVER_URL: string | undefined;
 declare const MAIN_WINDOW_VITE_NAME: string;
 
+const DEFAULT_WIDTH = 1400;
+const DEFAULT_HEIGHT = 900;
+const MIN_WIDTH = 800;
+const MIN_HEIGHT = 600;
+
+// Read by preload.ts, which only gives the config APIs to this page
+const LAUNCHER_URL_ARG = '--vk-launcher-url=';
+
+// Schemes handed to the OS when a page opens or navigates to them
+const EXTERNAL_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+// Electron permissions covered by each board permission setting. Anything
+// not listed here is denied, except fullscreen (e.g. for videos)
+const PERMISSION_SETTINGS: Record<string, BoardPermission> = {
+  notifications: 'notifications',
+  'clipboard-read': 'clipboard',
+  'clipboard-sanitized-write': 'clipboard',
+  media: 'media',
+};
+
+/**
+ * Where the launcher (index.html) is served from.
+ */
+function launcherUrl(): URL {
+  return MAIN_WINDOW_VITE_DEV_SERVER_URL
+    ? new URL(MAIN_WINDOW_VITE_DEV_SERVER_URL)
+    : pathToFileURL(path.join(__dirname, `../renderer/${MAIN_WINDOW_VITE_NAME}/index.html`));
+}
+
+function isLauncherUrl(url: URL): boolean {
+  const launcher = launcherUrl();
+  return url.protocol === launcher.protocol && url.host === launcher.host && url.pathname === launcher.pathname;
+}
+
+function parseUrl(value: string): URL | null {
+  try {
+    return new URL(value);
+  } catch {
+    return null;
+  }
+}
+
+function openExternal(value: string): void {
+  const url = parseUrl(value);
+  if (url && EXTERNAL_PROTOCOLS.includes(url.protocol)) {
+    shell.openExternal(url.toString());
+  } else {
+    console.warn('Blocked opening', value);
+  }
+}
+
+/**
+ * Whether a page may use a permission. Only the top-level board page can be
+ * granted anything; the launcher and embedded frames from other origins can't.
+ */
+function isPermissionAllowed(
+  configManager: ConfigManager,
+  contents: WebContents | null,
+  permission: string,
+  requestingUrl: string,
+): boolean {
+  if (permission === 'fullscreen') {
+    return true;
+  }
+
+  const setting = PERMISSION_SETTINGS[permission];
+  const requesting = parseUrl(requestingUrl);
+  const page = contents ? parseUrl(contents.getURL()) : null;
+  if (!setting || !requesting || !page || isLauncherUrl(page) || requesting.origin !== page.origin) {
+    return false;
+  }
+  return configManager.getBoardPermissions()[setting];
+}
+
+/**
+ * Fit saved bounds onto a display that still exists. Prefers the display the
+ * window was on, then any display it overlaps, and otherwise centers it on
+ * the primary display.
+ */
+function restoreBounds(state: WindowState | undefined): Partial<Rectangle> {
+  if (!state) {
+    return { width: DEFAULT_WIDTH, height: DEFAULT_HEIGHT };
+  }
+
+  const displays = screen.getAllDisplays();
+  const saved = { x: state.x ?? 0, y: state.y ?? 0, width: state.width, height: state.height };
+  const overlaps = (area: Rectangle) =>
+    saved.x < area.x + area.width && saved.x + saved.width > area.x &&
+    saved.y < area.y + area.height && saved.y + saved.height > area.y;
+  const display = (state.x !== undefined && state.y !== undefined)
+    ? displays.find(candidate => candidate.id === state.displayId && overlaps(candidate.workArea))
+      ?? displays.find(candidate => overlaps(candidate.workArea))
+    : undefined;
+
+  const area = (display ?? screen.getPrimaryDisplay()).workArea;
+  const width = Math.max(MIN_WIDTH, Math.min(state.width, area.width));
+  const height = Math.max(MIN_HEIGHT, Math.min(state.height, area.height));
+
+  if (!display) {
+    return { width, height };
+  }
+  return {
+    x: Math.min(Math.max(saved.x, area.x), area.x + area.width - width),
+    y: Math.min(Math.max(saved.y, area.y), area.y + area.height - height),
+    width,
+    height,
+  };
+}
+
 export class WindowManager {
   private mainWindow: BrowserWindow | null = null;
+  private configManager: ConfigManager;
+  private profileName: string | null = null;
+  // The board that is loaded, so its route can be remembered
+  private board: { profileId: string; origin: string } | null = null;
+  // Whose window state this window restores and saves; null until it shows a board
+  private stateProfileId: string | null = null;
+  private healthState: HealthState | null = null;
+  // Latest launch progress, sent again if the loading screen reloads
+  private startupProgress: StartupProgress | null = null;
+  private saveStateTimer: NodeJS.Timeout | null = null;
+  private readonly SAVE_STATE_DELAY = 500;
+
+  constructor(configManager: ConfigManager) {
+    this.configManager = configManager;
+  }
 
-  createMainWindow(): BrowserWindow {
+  /**
+   * Open the window, where `profileId`'s board window was last if it is
+   * opened for a profile.
+   */
+  createMainWindow(profileId?: string): BrowserWindow {
     // Get icon path - extraResource files are in Resources folder when packaged
     const iconPath = app.isPackaged
       ? path.join(process.resourcesPath, 'assets', 'icon.png')
       : path.join(app.getAppPath(), 'assets', 'icon.png');
 
+    this.stateProfileId = profileId ?? null;
+    const savedState = this.configManager.getWindowState(profileId);
+
     this.mainWindow = new BrowserWindow({
-      width: 1400,
-      height: 900,
-      minWidth: 800,
-      minHeight: 600,
+      ...restoreBounds(savedState),
+      minWidth: MIN_WIDTH,
+      minHeight: MIN_HEIGHT,
       title: 'VK Wrapper',
       icon: iconPath,
       show: false,
@@ -26,22 +161,27 @@ export class WindowManager {
         preload: path.join(__dirname, 'preload.js'),
         contextIsolation: true,
         nodeIntegration: false,
+        additionalArguments: [`${LAUNCHER_URL_ARG}${launcherUrl().toString()}`],
       },
     });
 
     // Show loading screen initially
-    if (MAIN_WINDOW_VITE_DEV_SERVER_URL) {
-      this.mainWindow.loadURL(MAIN_WINDOW_VITE_DEV_SERVER_URL);
-    } else {
-      this.mainWindow.loadFile(path.join(__dirname, `../renderer/${MAIN_WINDOW_VITE_NAME}/index.html`));
-    }
+    this.showConfigScreen();
 
-    // Open external links in default browser
-    this.mainWindow.webContents.setWindowOpenHandler(({ url }) => {
-      shell.openExternal(url);
-      return { action: 'deny' };
+    this.mainWindow.on('page-title-updated', (event, title) => {
+      event.preventDefault();
+      this.mainWindow?.setTitle(this.formatTitle(title));
     });
 
+    // The health indicator lives in the page, so put it back after every load
+    this.mainWindow.webContents.on('did-finish-load', () => this.injectHealthStatus());
+    this.mainWindow.webContents.on('did-finish-load', () => this.sendStartupProgress());
+
+    this.restoreWindowState(this.mainWindow, savedState);
+    this.trackWindowState(this.mainWindow);
+    this.trackRoute(this.mainWindow);
+    this.applySecurityPolicy(this.mainWindow);
+
     // Show window when ready, with fallback timeout
     let shown = false;
     const showWindow = () => {
@@ -59,75 +199,376 @@ export class WindowManager {
     return this.mainWindow;
   }
 
+  /**
+   * Keep the window on the launcher and the board's server. Links elsewhere
+   * open in the default browser when they are web or mail links, and the
+   * board only gets the permissions the user allowed.
+   */
+  private applySecurityPolicy(window: BrowserWindow): void {
+    const contents = window.webContents;
+
+    contents.setWindowOpenHandler(({ url }) => {
+      openExternal(url);
+      return { action: 'deny' };
+    });
+
+    contents.on('will-navigate', (event, url) => {
+      const target = parseUrl(url);
+      const allowed = target !== null
+        && (isLauncherUrl(target) || (this.board !== null && target.origin === this.board.origin));
+      if (!allowed) {
+        event.preventDefault();
+        openExternal(url);
+      }
+    });
+
+    // The session is shared by every window; the policy only looks at the
+    // requesting page, so setting it again per window is harmless
+    contents.session.setPermissionRequestHandler((requester, permission, callback, details) => {
+      callback(isPermissionAllowed(this.configManager, requester, permission, details.requestingUrl));
+    });
+    contents.session.setPermissionCheckHandler((requester, permission, requestingOrigin) => {
+      return isPermissionAllowed(this.configManager, requester, permission, requestingOrigin);
+    });
+  }
+
+  private restoreWindowState(window: BrowserWindow, state: WindowState | undefined): void {
+    if (state?.maximized) {
+      window.maximize();
+    }
+    if (state?.fullscreen) {
+      window.setFullScreen(true);
+    }
+
+    // Chromium keeps zoom per origin, so apply it again on every page
+    window.webContents.on('did-finish-load', () => {
+      window.webContents.setZoomFactor(this.configManager.getWindowState(this.stateProfileId ?? undefined)?.zoomFactor ?? 1);
+    });
+  }
+
+  private trackWindowState(window: BrowserWindow): void {
+    const save = () => {
+      if (this.saveStateTimer) {
+        clearTimeout(this.saveStateTimer);
+        this.saveStateTimer = null;
+      }
+      if (window.isDestroyed()) {
+        return;
+      }
+
+      // Keep the un-maximized size, so un-maximizing after a restore works
+      const bounds = window.getNormalBounds();
+      this.configManager.setWindowState({
+        ...bounds,
+        maximized: window.isMaximized(),
+        fullscreen: window.isFullScreen(),
+        displayId: screen.getDisplayMatching(bounds).id,
+        zoomFactor: window.webContents.getZoomFactor(),
+      }, this.stateProfileId ?? undefined);
+    };
+    const saveSoon = () => {
+      if (this.saveStateTimer) {
+        clearTimeout(this.saveStateTimer);
+      }
+      this.saveStateTimer = setTimeout(save, this.SAVE_STATE_DELAY);
+    };
+
+    window.on('resize', saveSoon);
+    window.on('move', saveSoon);
+    window.on('maximize', saveSoon);
+    window.on('unmaximize', saveSoon);
+    window.on('enter-full-screen', saveSoon);
+    window.on('leave-full-screen', saveSoon);
+    window.webContents.on('zoom-changed', saveSoon);
+    // Zoom from the View menu doesn't emit zoom-changed; closing catches it
+    window.on('close', save);
+  }
+
+  /**
+   * Remember the board page the user is on, including in-app navigation.
+   */
+  private trackRoute(window: BrowserWindow): void {
+    const remember = (_event: unknown, url: string) => {
+      let parsed: URL;
+      try {
+        parsed = new URL(url);
+      } catch {
+        return;
+      }
+      if (this.board && parsed.origin === this.board.origin) {
+        this.configManager.setLastRoute(this.board.profileId, `${parsed.pathname}${parsed.search}${parsed.hash}`);
+      }
+    };
+    window.webContents.on('did-navigate', remember);
+    window.webContents.on('did-navigate-in-page', remember);
+  }
+
+  /**
+   * The server URL with the profile's last route, so a new port or host still
+   * opens the page the user was on.
+   */
+  private withLastRoute(url: string, profileId: string): string {
+    const route = this.configManager.getProfile(profileId)?.lastRoute;
+    if (!route || !route.startsWith('/')) {
+      return url;
+    }
+    return new URL(route, url).toString();
+  }
+
   getWindow(): BrowserWindow | null {
     return this.mainWindow;
   }
 
-  loadServerUrl(url: string): void {
+  /**
+   * Label the window with the profile it shows, so side-by-side boards can be told apart.
+   */
+  setProfileName(name: string | null): void {
+    this.profileName = name;
     if (this.mainWindow && !this.mainWindow.isDestroyed()) {
-      this.mainWindow.loadURL(url);
+      this.mainWindow.setTitle(this.formatTitle(this.mainWindow.webContents.getTitle()));
+    }
+  }
+
+  private formatTitle(pageTitle: string): string {
+    const title = pageTitle || 'VK Wrapper';
+    return this.profileName ? `${title} - ${this.profileName}` : title;
+  }
+
+  /**
+   * Open a server log viewer window for one profile.
+   */
+  static createLogsWindow(profileName: string): BrowserWindow {
+    const logsWindow = new BrowserWindow({
+      width: 1000,
+      height: 700,
+      minWidth: 600,
+      minHeight: 400,
+      title: `Server Logs - ${profileName}`,
+      webPreferences: {
+        preload: path.join(__dirname, 'logs-preload.js'),
+        contextIsolation: true,
+        nodeIntegration: false,
+      },
+    });
+
+    // Keep the profile name in the title instead of the page's own
+    logsWindow.on('page-title-updated', (event) => event.preventDefault());
+
+    if (MAIN_WINDOW_VITE_DEV_SERVER_URL) {
+      logsWindow.loadURL(`${MAIN_WINDOW_VITE_DEV_SERVER_URL}/logs.html`);
+    } else {
+      logsWindow.loadFile(path.join(__dirname, `../renderer/${MAIN_WINDOW_VITE_NAME}/logs.html`));
+    }
+
+    return logsWindow;
+  }
+
+  /**
+   * Load the local config screen (index.html), e.g. after the server is stopped.
+   * `focus` is the id of a field to focus, e.g. 'port'.
+   */
+  showConfigScreen(focus?: string): void {
+    this.loadLauncherPage(focus ? { focus } : {});
+  }
+
+  /**
+   * The launcher's Node.js setup screen.
+   */
+  showSetupScreen(): void {
+    this.loadLauncherPage({ screen: 'setup' });
+  }
+
+  /**
+   * The launcher's "Starting server..." screen, for launches that skip the
+   * config screen.
+   */
+  showLoadingScreen(): void {
+    this.loadLauncherPage({ screen: 'loading' });
+  }
+
+  /**
+   * Show launch progress on the loading screen.
+   */
+  showStartupProgress(progress: StartupProgress): void {
+    this.startupProgress = progress;
+    this.sendStartupProgress();
+  }
+
+  private sendStartupProgress(): void {
+    if (this.startupProgress && !this.board && this.mainWindow && !this.mainWindow.isDestroyed()) {
+      this.mainWindow.webContents.send('startup-progress', this.startupProgress);
     }
   }
 
-  showError(message: string): void {
+  private loadLauncherPage(query: Record<string, string>): void {
     if (this.mainWindow && !this.mainWindow.isDestroyed()) {
-      const errorHtml = `
-        <!DOCTYPE html>
-        <html>
-        <head>
-          <meta charset="UTF-8">
-          <title>VK Wrapper - Error</title>
-          <style>
-            body {
-              font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, sans-serif;
-              background: linear-gradient(135deg, #1a1a2e 0%, #16213e 100%);
-              color: #eee;
-              display: flex;
-              align-items: center;
-              justify-content: center;
-              height: 100vh;
-              margin: 0;
-              padding: 20px;
-              box-sizing: border-box;
-            }
-            .error-container {
-              text-align: center;
-              max-width: 500px;
-            }
-            h1 {
-              color: #ff6b6b;
-              margin-bottom: 20px;
-            }
-            p {
-              line-height: 1.6;
-              color: #ccc;
-            }
-            .error-message {
-              background: rgba(255, 107, 107, 0.1);
-              border: 1px solid rgba(255, 107, 107, 0.3);
-              border-radius: 8px;
-              padding: 15px;
-              margin: 20px 0;
-              font-family: monospace;
-              font-size: 14px;
-              word-break: break-word;
-            }
-            .hint {
-              font-size: 14px;
-              color: #888;
-            }
-          </style>
-        </head>
-        <body>
-          <div class="error-container">
-            <h1>Failed to Start</h1>
-            <div class="error-message">${message.replace(/\n/g, '<br>')}</div>
-            <p class="hint">Please check that Node.js 18+ is installed and try again.</p>
-          </div>
-        </body>
-        </html>
+      this.healthState = null;
+      this.startupProgress = null;
+      this.board = null;
+      if (MAIN_WINDOW_VITE_DEV_SERVER_URL) {
+        const url = new URL(MAIN_WINDOW_VITE_DEV_SERVER_URL);
+        for (const [key, value] of Object.entries(query)) {
+          url.searchParams.set(key, value);
+        }
+        this.mainWindow.loadURL(url.toString());
+      } else {
+        this.mainWindow.loadFile(path.join(__dirname, `../renderer/${MAIN_WINDOW_VITE_NAME}/index.html`), { query });
+      }
+    }
+  }
+
+  loadServerUrl(url: string, profileId: string): void {
+    if (this.mainWindow && !this.mainWindow.isDestroyed()) {
+      this.board = { profileId, origin: new URL(url).origin };
+      // From now on this window's place and zoom are the profile's
+      this.stateProfileId = profileId;
+      this.startupProgress = null;
+      this.mainWindow.loadURL(this.withLastRoute(url, profileId));
+    }
+  }
+
+  /**
+   * Reload the board after the server came back. If the window is still on the
+   * same origin, reload in place so the user stays on the page they were viewing;
+   * otherwise open the last route on the new origin.
+   */
+  reloadServerUrl(url: string, profileId: string): void {
+    if (this.mainWindow && !this.mainWindow.isDestroyed()) {
+      const currentUrl = this.mainWindow.webContents.getURL();
+      let sameOrigin = false;
+      try {
+        sameOrigin = new URL(currentUrl).origin === new URL(url).origin;
+      } catch {
+        // Current page is not a parseable URL (e.g. blank)
+      }
+
+      if (sameOrigin) {
+        this.mainWindow.webContents.reload();
+      } else {
+        this.loadServerUrl(url, profileId);
+      }
+    }
+  }
+
+  /**
+   * Cover the current page with a "server restarting" overlay. The overlay is
+   * injected into the page and disappears when the board is reloaded.
+   */
+  showRestarting(attempt: number, delayMs: number, reconnecting = false): void {
+    if (this.mainWindow && !this.mainWindow.isDestroyed()) {
+      const seconds = Math.ceil(delayMs / 1000);
+      const text = reconnecting
+        ? `Lost connection to the server. Reconnecting in ${seconds}s (attempt ${attempt})...`
+        : `Server stopped unexpectedly. Restarting in ${seconds}s (attempt ${attempt})...`;
+      const script = `
+        (() => {
+          let overlay = document.getElementById('vk-wrapper-overlay');
+          if (!overlay) {
+            overlay = document.createElement('div');
+            overlay.id = 'vk-wrapper-overlay';
+            overlay.style.cssText = [
+              'position: fixed',
+              'inset: 0',
+              'z-index: 2147483647',
+              'display: flex',
+              'align-items: center',
+              'justify-content: center',
+              'background: rgba(26, 26, 46, 0.85)',
+              'color: #eee',
+              'font-family: -apple-system, BlinkMacSystemFont, sans-serif',
+              'font-size: 16px',
+            ].join(';');
+            document.body.appendChild(overlay);
+          }
+          overlay.textContent = ${JSON.stringify(text)};
+        })();
       `;
-      this.mainWindow.loadURL(`data:text/html;charset=utf-8,${encodeURIComponent(errorHtml)}`);
+      this.mainWindow.webContents.executeJavaScript(script).catch((error) => {
+        console.warn('Failed to show restart overlay:', error);
+      });
     }
   }
+
+  /**
+   * Show the server's health as a small indicator in the corner of the board.
+   */
+  showHealthStatus(state: HealthState | null): void {
+    this.healthState = state;
+    this.injectHealthStatus();
+  }
+
+  private injectHealthStatus(): void {
+    if (!this.mainWindow || this.mainWindow.isDestroyed() || !this.healthState) {
+      return;
+    }
+
+    // Only the board itself gets the indicator, not the config or error pages
+    // (which in dev are http:// pages too)
+    const page = parseUrl(this.mainWindow.webContents.getURL());
+    if (!page || !this.board || page.origin !== this.board.origin) {
+      return;
+    }
+
+    const colors: Record<HealthState, string> = {
+      starting: '#888',
+      ready: '#4caf50',
+      degraded: '#ffb300',
+      down: '#ff6b6b',
+    };
+    const labels: Record<HealthState, string> = {
+      starting: 'Server starting',
+      ready: 'Server healthy',
+      degraded: 'Server responding slowly',
+      down: 'Server not responding',
+    };
+    const state = this.healthState;
+
+    const script = `
+      (() => {
+        let indicator = document.getElementById('vk-wrapper-health');
+        if (!indicator) {
+          indicator = document.createElement('div');
+          indicator.id = 'vk-wrapper-health';
+          indicator.style.cssText = [
+            'position: fixed',
+            'right: 8px',
+            'bottom: 8px',
+            'z-index: 2147483646',
+            'padding: 4px 10px 4px 22px',
+            'border-radius: 12px',
+            'background: rgba(26, 26, 46, 0.85)',
+            'color: #eee',
+            'font-family: -apple-system, BlinkMacSystemFont, sans-serif',
+            'font-size: 12px',
+            'pointer-events: none',
+            'background-repeat: no-repeat',
+            'background-position: 8px center',
+            'background-size: 8px 8px',
+          ].join(';');
+          document.body.appendChild(indicator);
+        }
+        indicator.title = ${JSON.stringify(labels[state])};
+        indicator.style.backgroundImage = 'radial-gradient(circle, ${colors[state]} 60%, transparent 62%)';
+        // Stay out of the way while healthy: just the dot
+        indicator.textContent = ${JSON.stringify(state === 'ready' ? '' : labels[state])};
+        indicator.style.padding = ${JSON.stringify(state === 'ready' ? '4px 4px 4px 16px' : '4px 10px 4px 22px')};
+      })();
+    `;
+    this.mainWindow.webContents.executeJavaScript(script).catch((error) => {
+      console.warn('Failed to show health status:', error);
+    });
+  }
+
+  /**
+   * Show the launcher's error screen, which explains the failure and offers
+   * ways to fix it. Without a profile there is nothing to retry.
+   */
+  showError(error: ServerError, profileId?: string): void {
+    this.loadLauncherPage({
+      screen: 'error',
+      kind: error.kind,
+      message: error.message,
+      ...(profileId ? { profile: profileId } : {}),
+    });
+  }
 }
@@ -1,4 +1,15 @@
 import { defineConfig } from 'vite';
+import path from 'path';
 
 // https://vitejs.dev/config
-export default defineConfig({});
+export default defineConfig({
+  build: {
+    rollupOptions: {
+      // The config screen and the log window are separate pages of one renderer
+      input: {
+        main: path.resolve(__dirname, 'index.html'),
+        logs: path.resolve(__dirname, 'logs.html'),
+      },
+    },
+  },
+});